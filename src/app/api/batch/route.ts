@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { parseBatchFile, runBatch } from "@/lib/batch";
+
+interface BatchRequest {
+  filename?: string;
+  content?: string;
+  /** NCBI taxonomy ID gene symbols are looked up in; defaults to human */
+  taxonId?: number;
+  includeUnreviewed?: boolean;
+}
+
+export async function POST(request: Request) {
+  let body: BatchRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  if (!body.content) {
+    return NextResponse.json(
+      { error: "Missing required field: content" },
+      { status: 400 }
+    );
+  }
+
+  // 1. Parse the uploaded CSV or VCF into variant rows
+  const parsed = parseBatchFile(body.filename ?? "", body.content);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // 2. Run every row through lookup, structure and annotation
+  try {
+    const results = await runBatch(parsed.rows, {
+      taxonId: body.taxonId,
+      includeUnreviewed: body.includeUnreviewed,
+    });
+    return NextResponse.json({
+      format: parsed.format,
+      skipped: parsed.skipped,
+      results,
+    });
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
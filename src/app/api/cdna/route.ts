@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { parseCdnaVariant, translateCdnaVariant } from "@/lib/cdna";
+import { findCds } from "@/lib/transcripts";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const variant = searchParams.get("variant");
+
+  if (!variant) {
+    return NextResponse.json(
+      { error: "Missing required query parameter: variant" },
+      { status: 400 },
+    );
+  }
+
+  // 1. Parse the coding-DNA substitution
+  const parsed = parseCdnaVariant(variant);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { gene, transcript } = parsed.variant;
+
+  // 2. Load the transcript CDS from the local data directory
+  let record;
+  try {
+    record = await findCds(gene, transcript);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  if (!record) {
+    return NextResponse.json(
+      {
+        error: transcript
+          ? `No CDS found for transcript ${transcript} in the local data directory.`
+          : `No CDS found for gene ${gene} in the local data directory.`,
+      },
+      { status: 404 },
+    );
+  }
+
+  // 3. Translate the codon change with the standard genetic code
+  const translated = translateCdnaVariant(record.sequence, parsed.variant);
+  if (!translated.ok) {
+    return NextResponse.json({ error: translated.error }, { status: 400 });
+  }
+
+  const { position, ref, alt } = parsed.variant;
+  return NextResponse.json({
+    gene,
+    transcript: record.id,
+    cdnaChange: `c.${position}${ref}>${alt}`,
+    ...translated.consequence,
+  });
+}
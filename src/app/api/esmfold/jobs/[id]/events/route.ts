@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import {
+  getFoldJob,
+  isFinished,
+  isFoldJobId,
+  subscribeFoldJob,
+  type FoldJob,
+} from "@/lib/foldjobs";
+import { formatSseEvent } from "@/lib/sse";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Keeps proxies from closing a quiet stream */
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Server-Sent Events for one fold job: a `status` event with the job on
+ * every change, ending after the job finishes.
+ */
+export async function GET(request: Request, { params }: JobRouteContext) {
+  const { id } = await params;
+  if (!isFoldJobId(id)) {
+    return NextResponse.json({ error: `Invalid fold job id: ${id}` }, { status: 400 });
+  }
+  const job = await getFoldJob(id);
+  if (!job) {
+    return NextResponse.json({ error: `Unknown fold job: ${id}` }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe?.();
+        if (heartbeat) clearInterval(heartbeat);
+        controller.close();
+      };
+      const send = (current: FoldJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSseEvent("status", current)));
+        if (isFinished(current.status)) close();
+      };
+
+      send(job);
+      if (closed) return;
+
+      unsubscribe = subscribeFoldJob(id, send);
+      if (!unsubscribe) {
+        // Finished between the lookup and the subscription
+        void getFoldJob(id).then((latest) => {
+          if (latest) send(latest);
+          close();
+        });
+        return;
+      }
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_MS);
+      request.signal.addEventListener("abort", close);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
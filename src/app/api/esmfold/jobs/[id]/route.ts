@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { cancelFoldJob, getFoldJob, isFoldJobId } from "@/lib/foldjobs";
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Status of a fold job, with the models once it is done */
+export async function GET(_request: Request, { params }: JobRouteContext) {
+  const { id } = await params;
+  if (!isFoldJobId(id)) {
+    return NextResponse.json({ error: `Invalid fold job id: ${id}` }, { status: 400 });
+  }
+  const job = await getFoldJob(id);
+  if (!job) {
+    return NextResponse.json({ error: `Unknown fold job: ${id}` }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
+
+/** Cancel a queued or running fold job */
+export async function DELETE(_request: Request, { params }: JobRouteContext) {
+  const { id } = await params;
+  if (!isFoldJobId(id)) {
+    return NextResponse.json({ error: `Invalid fold job id: ${id}` }, { status: 400 });
+  }
+  const job = cancelFoldJob(id);
+  if (!job) {
+    return NextResponse.json(
+      { error: `Fold job ${id} is not running on this server` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(job);
+}
@@ -1,163 +1,183 @@
 import { NextResponse } from "next/server";
-
-interface ESMFoldRequest {
-  sequence: string;
+import type { VariantType } from "@/lib/hgvs";
+import { applyVariants, type VariantChange } from "@/lib/variant";
+import { reconcileNumbering } from "@/lib/numbering";
+import { chooseFoldWindow, windowSequences, type FoldWindow } from "@/lib/foldwindow";
+import { foldingProviderInfo, getFoldingProvider } from "@/lib/folding";
+import { isFinished, submitFoldJob } from "@/lib/foldjobs";
+
+interface ChangeRequest {
+  type?: VariantType;
   position: number;
+  end?: number;
   original: string;
+  endOriginal?: string;
   mutant: string;
 }
 
+interface ESMFoldRequest {
+  sequence: string;
+  changes: ChangeRequest[];
+  /** Also fold the unchanged sequence, so both models come from the same predictor */
+  includeWildType?: boolean;
+  /** Over the length limit, fold a window around the sites instead of failing */
+  window?: boolean;
+  /** UniProt domains, used to bound the window */
+  domains?: { name: string; start: number; end: number }[];
+}
+
+type Resolution =
+  | { resolved: VariantChange; correctedPosition: number | null; note: string | null }
+  | { error: string };
+
+/**
+ * Validate one change against the sequence and resolve its position.
+ * The page sends sites already in UniProt numbering; other callers get
+ * the same fallback as the numbering service without a reference.
+ */
+function resolveChange(sequence: string, change: VariantChange): Resolution {
+  const { position } = change;
+
+  // Validate the affected span lies within the sequence
+  if (position < 1 || change.end > sequence.length) {
+    const span =
+      change.end === position ? `${position}` : `${position}-${change.end}`;
+    return {
+      error: `Position ${span} is out of range. Must be between 1 and ${sequence.length}.`,
+    };
+  }
+
+  const numbering = reconcileNumbering(sequence, [change], null);
+  const [site] = numbering.sites;
+  switch (site.method) {
+    case "unresolved":
+      return { error: site.note ?? `Could not place position ${position} on the sequence.` };
+    case "direct":
+      return { resolved: change, correctedPosition: null, note: null };
+    default:
+      return { resolved: numbering.changes[0], correctedPosition: site.position, note: site.note };
+  }
+}
+
+/** The configured folding provider and its length limit */
+export async function GET() {
+  return NextResponse.json(foldingProviderInfo(getFoldingProvider()));
+}
+
 export async function POST(request: Request) {
   try {
     const body: ESMFoldRequest = await request.json();
-    const { sequence, position, original, mutant } = body;
-
-    // 1. Validate all fields are present
-    if (!sequence || position === undefined || position === null || !original || !mutant) {
-      return NextResponse.json(
-        { error: "Missing required fields: sequence, position, original, mutant" },
-        { status: 400 }
+    const { sequence, changes, includeWildType = false, window = false, domains = [] } = body;
+
+    // 1. Validate all fields are present (deletions carry no new residues)
+    const incomplete =
+      !Array.isArray(changes) ||
+      changes.length === 0 ||
+      changes.some(
+        (c) =>
+          c.position === undefined ||
+          c.position === null ||
+          !c.original ||
+          (!c.mutant && c.type !== "deletion" && c.type !== "frameshift")
       );
-    }
-
-    // 2. Validate position is >= 1 and <= sequence.length
-    if (position < 1 || position > sequence.length) {
+    if (!sequence || incomplete) {
       return NextResponse.json(
         {
-          error: `Position ${position} is out of range. Must be between 1 and ${sequence.length}.`,
+          error:
+            "Missing required fields: sequence, changes[].position, changes[].original, changes[].mutant",
         },
         { status: 400 }
       );
     }
 
-    // 3. Resolve the actual position — handle clinical vs UniProt numbering offsets
-    let resolvedPosition = position;
-    let correctedPosition: number | null = null;
-    let note: string | null = null;
-
-    const actual = sequence[position - 1];
-    if (actual.toUpperCase() !== original.toUpperCase()) {
-      // Search within ±5 positions for the expected amino acid
-      let found = false;
-      for (let offset = -5; offset <= 5; offset++) {
-        if (offset === 0) continue;
-        const idx = position - 1 + offset;
-        if (idx < 0 || idx >= sequence.length) continue;
-        if (sequence[idx].toUpperCase() === original.toUpperCase()) {
-          resolvedPosition = idx + 1; // back to 1-indexed
-          correctedPosition = resolvedPosition;
-          note = `Note: ${original} found at position ${resolvedPosition} instead of ${position} (common numbering offset).`;
-          found = true;
-          break;
-        }
+    // 2. Resolve every site against the sequence
+    const resolved: VariantChange[] = [];
+    const correctedPositions: (number | null)[] = [];
+    const notes: string[] = [];
+    for (const c of changes) {
+      const resolution = resolveChange(sequence, {
+        type: c.type ?? "missense",
+        original: c.original.toUpperCase(),
+        position: c.position,
+        endOriginal: (c.endOriginal ?? c.original).toUpperCase(),
+        end: c.end ?? c.position,
+        mutant: (c.mutant ?? "").toUpperCase(),
+      });
+      if ("error" in resolution) {
+        return NextResponse.json({ error: resolution.error }, { status: 400 });
       }
-      if (!found) {
+      resolved.push(resolution.resolved);
+      correctedPositions.push(resolution.correctedPosition);
+      if (resolution.note) notes.push(resolution.note);
+    }
+
+    // 3. Sites must still be distinct after offset correction
+    const sorted = [...resolved].sort((a, b) => a.position - b.position);
+    for (let k = 1; k < sorted.length; k++) {
+      if (sorted[k].position <= sorted[k - 1].end) {
         return NextResponse.json(
-          {
-            error: `Expected ${original} at position ${position} but found ${actual}. Could not find ${original} within ±5 positions.`,
-          },
+          { error: `Changes at positions ${sorted[k - 1].position} and ${sorted[k].position} overlap.` },
           { status: 400 }
         );
       }
     }
 
-    // 4. Check sequence length limit
-    if (sequence.length > 400) {
+    // 4. Create the combined mutant sequence
+    const mutantSequence = applyVariants(sequence, resolved);
+    if (mutantSequence.length === 0) {
       return NextResponse.json(
-        {
-          error: `Sequence is ${sequence.length} residues. ESMFold server limit is 400.`,
-        },
+        { error: "The variant leaves no residues to fold." },
         { status: 400 }
       );
     }
 
-    // 5. Create mutant sequence by replacing character at resolvedPosition-1 with mutant amino acid (uppercase)
-    const mutantSequence =
-      sequence.substring(0, resolvedPosition - 1) +
-      mutant.toUpperCase() +
-      sequence.substring(resolvedPosition);
-
-    // 6. POST the raw mutant sequence string to ESMFold API
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 120000);
-
-    let response: Response;
-    try {
-      response = await fetch(
-        "https://api.esmatlas.com/foldSequence/v1/pdb/",
-        {
-          method: "POST",
-          headers: { "Content-Type": "text/plain" },
-          body: mutantSequence,
-          signal: controller.signal,
-        }
-      );
-    } catch (fetchError: unknown) {
-      clearTimeout(timeout);
-      // Catch AbortError (timeout) separately
-      if (
-        fetchError instanceof DOMException &&
-        fetchError.name === "AbortError"
-      ) {
+    // 5. Check the provider's length limit, folding a window around the sites when asked to
+    const provider = getFoldingProvider();
+    const maxLength = provider.maxLength;
+    let folded = { wildType: sequence, mutant: mutantSequence };
+    let foldWindow: FoldWindow | null = null;
+    const overLimit =
+      mutantSequence.length > maxLength ||
+      (includeWildType && sequence.length > maxLength);
+    if (window && overLimit) {
+      foldWindow = chooseFoldWindow(sequence, resolved, domains, maxLength);
+      if (!foldWindow) {
         return NextResponse.json(
-          { error: "ESMFold prediction timed out after 2 minutes" },
-          { status: 500 }
+          { error: `The changes span more than the ${provider.name} limit of ${maxLength} residues, so no window can hold them all.` },
+          { status: 400 }
         );
       }
-      // Catch other fetch errors
-      const message =
-        fetchError instanceof Error ? fetchError.message : String(fetchError);
+      folded = windowSequences(sequence, resolved, foldWindow);
+      notes.push(
+        `Folded residues ${foldWindow.start}–${foldWindow.end}` +
+          (foldWindow.source === "domain" ? ` (${foldWindow.domains.join(", ")})` : " around the changes") +
+          " on their own; the rest of the protein is not modelled."
+      );
+    } else if (mutantSequence.length > maxLength) {
       return NextResponse.json(
         {
-          error: `Failed to connect to ESMFold API: ${message}. The server may be temporarily unavailable.`,
+          error: `Mutant sequence is ${mutantSequence.length} residues. The ${provider.name} limit is ${maxLength}.`,
         },
-        { status: 500 }
-      );
-    }
-
-    clearTimeout(timeout);
-
-    // 7. If the ESMFold API returns non-ok, return 500 with the error text
-    if (!response.ok) {
-      const errorText = await response.text();
-      return NextResponse.json(
-        { error: errorText },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // 8. Calculate avgPlddt from the returned PDB data
-    const pdbData = await response.text();
-
-    const atomLines = pdbData
-      .split("\n")
-      .filter((line) => line.startsWith("ATOM  "));
-
-    let bFactorSum = 0;
-    let bFactorCount = 0;
-    for (const line of atomLines) {
-      const bFactorStr = line.substring(60, 66).trim();
-      const bFactor = parseFloat(bFactorStr);
-      if (!isNaN(bFactor)) {
-        bFactorSum += bFactor;
-        bFactorCount++;
-      }
+    // 6. Queue the fold; the client follows the job at /api/esmfold/jobs/[id]
+    const wildTypeFits = folded.wildType.length <= maxLength;
+    if (includeWildType && !wildTypeFits) {
+      notes.push(`The wild-type sequence is ${folded.wildType.length} residues, over the ${provider.name} limit of ${maxLength}, so it was not folded.`);
     }
-
-    const avgPlddt =
-      bFactorCount > 0
-        ? Math.round((bFactorSum / bFactorCount) * 10) / 10
-        : 0;
-
-    // 9. Return JSON response
-    return NextResponse.json({
-      pdbData,
-      avgPlddt,
+    const job = await submitFoldJob(provider, {
+      mutant: folded.mutant,
+      wildType: includeWildType && wildTypeFits ? folded.wildType : null,
+      window: foldWindow,
       mutantSequence,
-      sequenceLength: mutantSequence.length,
-      correctedPosition,
-      note,
+      correctedPositions,
+      notes,
     });
+
+    // 7. A job that already finished is returned as it is
+    return NextResponse.json(job, { status: isFinished(job.status) ? 200 : 202 });
   } catch (error: unknown) {
     const message =
       error instanceof Error ? error.message : "An unexpected error occurred";
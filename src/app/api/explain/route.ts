@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getGeminiApiKey, GEMINI_BASE_URL } from "@/lib/gemini";
+import { getLlmProvider, type TextStreamResult } from "@/lib/llm";
+import { formatSseEvent } from "@/lib/sse";
+import { buildExplanationPrompt, evidenceFrame, parseExplanationMode } from "@/lib/prompts";
+import { parseStructuredExplanation, partialSummary, suppliedEvidence } from "@/lib/explanation";
 
 export async function POST(request: NextRequest) {
   let body: Record<string, unknown>;
@@ -15,19 +18,29 @@ export async function POST(request: NextRequest) {
   const {
     proteinName,
     geneName,
+    organism,
     mutation,
     domain,
     plddt,
     alphamissense,
     clinvar,
+    features,
+    audience,
+    language,
+    detail,
   } = body as {
     proteinName?: string;
     geneName?: string;
+    organism?: string;
     mutation?: string;
     domain?: string;
     plddt?: number;
     alphamissense?: string;
     clinvar?: string;
+    features?: string;
+    audience?: string;
+    language?: string;
+    detail?: string;
   };
 
   // Validate required fields
@@ -47,70 +60,92 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // Obtain API key
-  let apiKey: string;
-  try {
-    apiKey = getGeminiApiKey();
-  } catch (err: unknown) {
-    const message =
-      err instanceof Error ? err.message : "Failed to retrieve Gemini API key";
-    return NextResponse.json({ error: message }, { status: 500 });
+  // Audience, language and length default to a brief English note for a physician
+  const mode = parseExplanationMode({ audience, language, detail });
+  if (!mode.ok) {
+    return NextResponse.json({ error: mode.error }, { status: 400 });
   }
 
-  // Build the prompt
-  const prompt = `You are a structural biology expert explaining a protein mutation to a physician. Be concise (2-3 sentences).
-
-Protein: ${proteinName} (${geneName})
-Mutation: ${mutation}
-Domain: ${domain}
-AlphaFold pLDDT at mutation site: ${plddt}
-AlphaMissense pathogenicity: ${alphamissense}
-ClinVar classification: ${clinvar}
-
-Explain in plain language why this mutation is likely damaging to protein function. Reference the structural context (domain, confidence) and clinical significance.`;
+  const input = {
+    proteinName: proteinName!,
+    geneName: geneName!,
+    organism,
+    mutation: mutation!,
+    domain: domain!,
+    plddt: plddt!,
+    alphamissense: alphamissense!,
+    clinvar: clinvar!,
+    features: features || "None reported",
+  };
+  const prompt = buildExplanationPrompt(input, mode.mode);
+  // Claims may only cite evidence that was sent; "Not available" values and a missing features list are not
+  const supplied = suppliedEvidence({ domain, plddt, alphamissense, clinvar, features });
 
-  // Call the Gemini API
+  // Start the configured model's stream; errors before the first token are plain JSON
+  const provider = getLlmProvider();
+  let stream: TextStreamResult;
   try {
-    const url = `${GEMINI_BASE_URL}/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
-    const geminiResponse = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [{ text: prompt }],
-          },
-        ],
-      }),
-    });
-
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      return NextResponse.json(
-        {
-          error: `Gemini API error (${geminiResponse.status}): ${errorText}`,
-        },
-        { status: 500 }
-      );
-    }
-
-    const data = await geminiResponse.json();
-    const explanation = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-
-    if (!explanation) {
-      return NextResponse.json(
-        { error: "Gemini API returned an unexpected response structure" },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({ explanation });
+    stream = await provider.stream(prompt, request.signal);
   } catch (err: unknown) {
     const message =
-      err instanceof Error ? err.message : "Unknown error calling Gemini API";
+      err instanceof Error ? err.message : `Unknown error calling ${provider.name}`;
     return NextResponse.json(
-      { error: `Gemini API request failed: ${message}` },
+      { error: `${provider.name} request failed: ${message}` },
       { status: 500 }
     );
   }
+  if (!stream.ok) {
+    return NextResponse.json({ error: stream.error }, { status: 500 });
+  }
+
+  // Relay the reply as Server-Sent Events: the model and evidence frame in `meta`, the summary so far
+  // as `summary`, then the validated JSON as `result` (or an `error`) and `done`. Claims and the rest of
+  // the raw reply only reach the client after validation.
+  const { tokens } = stream;
+  const encoder = new TextEncoder();
+  const events = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatSseEvent(event, data)));
+      send("meta", { provider: provider.name, model: provider.model, frame: evidenceFrame(input) });
+      try {
+        let reply = "";
+        let summary = "";
+        for await (const text of tokens) {
+          reply += text;
+          const partial = partialSummary(reply);
+          if (partial !== summary) {
+            summary = partial;
+            send("summary", { text: summary });
+          }
+        }
+        const parsed = parseStructuredExplanation(reply, supplied);
+        if (parsed.ok) send("result", parsed.explanation);
+        else send("error", { error: parsed.error });
+        send("done", {});
+      } catch (err: unknown) {
+        // The client stopping the stream aborts the upstream request too
+        if (!request.signal.aborted) {
+          const message = err instanceof Error ? err.message : String(err);
+          send("error", { error: `${provider.name} stream failed: ${message}` });
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        // Already closed by a cancelled client
+      }
+    },
+    cancel() {
+      void tokens.return(undefined);
+    },
+  });
+
+  return new Response(events, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 }
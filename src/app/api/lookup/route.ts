@@ -1,89 +1,38 @@
 import { NextResponse } from "next/server";
+import { lookupAccession, resolveProtein } from "@/lib/uniprot";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const gene = searchParams.get("gene");
+  // A UniProt accession or isoform ID, e.g. P04637 or P04637-2
+  const accession = searchParams.get("accession");
+  const organism = searchParams.get("organism");
+  const includeUnreviewed = searchParams.get("unreviewed") === "true";
 
-  if (!gene) {
+  if (!gene && !accession) {
     return NextResponse.json(
-      { error: "Missing required query parameter: gene" },
+      { error: "Missing required query parameter: gene or accession" },
       { status: 400 },
     );
   }
 
-  const uniprotUrl =
-    `https://rest.uniprot.org/uniprotkb/search?` +
-    `query=(gene:${encodeURIComponent(gene)})+AND+(organism_id:9606)+AND+(reviewed:true)` +
-    `&format=json` +
-    `&fields=accession,gene_names,protein_name,ft_domain,cc_function,sequence`;
-
-  try {
-    const response = await fetch(uniprotUrl, {
-      headers: { Accept: "application/json" },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `UniProt API request failed with status ${response.status}` },
-        { status: 500 },
-      );
-    }
-
-    const data = await response.json();
-
-    if (!data.results || data.results.length === 0) {
-      return NextResponse.json(
-        { error: `No results found for gene: ${gene}` },
-        { status: 404 },
-      );
-    }
-
-    const entry = data.results[0];
-
-    // Extract the primary accession
-    const uniprotId: string = entry.primaryAccession ?? "";
-
-    // Extract the recommended protein name
-    const proteinName: string =
-      entry.proteinDescription?.recommendedName?.fullName?.value ?? "";
-
-    // Extract the primary gene name
-    const geneName: string = entry.genes?.[0]?.geneName?.value ?? "";
-
-    // Extract the function description from comments (cc_function)
-    const functionComment = (entry.comments ?? []).find(
-      (c: { commentType?: string }) => c.commentType === "FUNCTION",
+  const taxonId = organism ? Number(organism) : undefined;
+  if (taxonId !== undefined && !Number.isInteger(taxonId)) {
+    return NextResponse.json(
+      { error: "organism must be an NCBI taxonomy ID, e.g. 10090" },
+      { status: 400 },
     );
-    const functionText: string =
-      functionComment?.texts?.[0]?.value ?? "";
-
-    // Extract domain annotations from features (ft_domain)
-    const domains: { name: string; start: number; end: number }[] = (
-      entry.features ?? []
-    )
-      .filter((f: { type?: string }) => f.type === "Domain")
-      .map((f: { description?: string; location?: { start?: { value?: number }; end?: { value?: number } } }) => ({
-        name: f.description ?? "",
-        start: f.location?.start?.value ?? 0,
-        end: f.location?.end?.value ?? 0,
-      }));
-
-    const sequence: string = entry.sequence?.value ?? "";
+  }
 
-    return NextResponse.json({
-      uniprotId,
-      proteinName,
-      geneName,
-      function: functionText,
-      domains,
-      sequence,
-    });
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : "Unknown error";
+  const result = accession
+    ? await lookupAccession(accession)
+    : await resolveProtein(gene!, { taxonId, includeUnreviewed });
+  if (!result.ok) {
     return NextResponse.json(
-      { error: `Failed to fetch from UniProt API: ${message}` },
-      { status: 500 },
+      { error: result.error, candidates: result.candidates ?? [] },
+      { status: result.status },
     );
   }
+
+  return NextResponse.json({ ...result.protein, candidates: result.candidates });
 }
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import type { VariantChange } from "@/lib/variant";
+import { reconcileNumbering } from "@/lib/numbering";
+import { findReferenceProtein } from "@/lib/transcripts";
+
+interface NumberingRequest {
+  /** UniProt sequence the changes should be numbered on */
+  sequence: string;
+  gene: string;
+  /** Transcript the input was numbered on, when known */
+  transcript?: string | null;
+  changes: VariantChange[];
+}
+
+export async function POST(request: Request) {
+  try {
+    const body: NumberingRequest = await request.json();
+    const { sequence, gene, transcript = null, changes } = body;
+
+    // 1. Validate all fields are present
+    if (!sequence || !gene || !Array.isArray(changes) || changes.length === 0) {
+      return NextResponse.json(
+        { error: "Missing required fields: sequence, gene, changes" },
+        { status: 400 }
+      );
+    }
+
+    // 2. Find the sequence the variant is numbered on (the local transcript CDS)
+    const reference = await findReferenceProtein(gene, transcript);
+
+    // 3. Carry every site over to UniProt numbering
+    return NextResponse.json(reconcileNumbering(sequence, changes, reference));
+  } catch (error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "An unexpected error occurred";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { findPdbEntries } from "@/lib/experimental";
+
+/** Parse a comma-separated list of residue positions */
+function parsePositions(value: string | null): number[] | null {
+  if (!value) return null;
+  const positions = value.split(",").map((p) => parseInt(p, 10));
+  return positions.every((p) => Number.isInteger(p) && p > 0) ? positions : null;
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const uniprotId = searchParams.get("uniprotId");
+  const positions = parsePositions(searchParams.get("positions"));
+  const length = parseInt(searchParams.get("length") ?? "0", 10) || 0;
+
+  if (!uniprotId || !positions) {
+    return NextResponse.json(
+      { error: "Missing required query parameters: uniprotId and positions" },
+      { status: 400 }
+    );
+  }
+
+  const result = await findPdbEntries(uniprotId, length, positions);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+
+  return NextResponse.json({ entries: result.entries });
+}
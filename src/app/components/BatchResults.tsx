@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import type { BatchResultRow } from "@/lib/batch";
+
+interface BatchResultsProps {
+  rows: BatchResultRow[];
+  skipped: number;
+  selectedInput: string | null;
+  onSelect: (row: BatchResultRow) => void;
+}
+
+type SortKey =
+  | "row"
+  | "notation"
+  | "proteinName"
+  | "domain"
+  | "plddt"
+  | "alphamissense"
+  | "clinvar"
+  | "status";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "row", label: "Row" },
+  { key: "notation", label: "Variant" },
+  { key: "proteinName", label: "Protein" },
+  { key: "domain", label: "Domain" },
+  { key: "plddt", label: "pLDDT" },
+  { key: "alphamissense", label: "AlphaMissense" },
+  { key: "clinvar", label: "ClinVar" },
+  { key: "status", label: "Status" },
+];
+
+/** Sort value for a column; AlphaMissense sorts by its leading score */
+function sortValue(row: BatchResultRow, key: SortKey): string | number | null {
+  if (key === "alphamissense") {
+    const score = parseFloat(row.alphamissense ?? "");
+    return isNaN(score) ? null : score;
+  }
+  if (key === "notation") return `${row.gene} ${row.notation ?? row.input}`;
+  return row[key];
+}
+
+/** Compare two rows, always placing missing values last */
+function compareRows(
+  a: BatchResultRow,
+  b: BatchResultRow,
+  key: SortKey,
+  direction: 1 | -1
+): number {
+  const av = sortValue(a, key);
+  const bv = sortValue(b, key);
+  if (av === null && bv === null) return 0;
+  if (av === null) return 1;
+  if (bv === null) return -1;
+  if (typeof av === "number" && typeof bv === "number") {
+    return (av - bv) * direction;
+  }
+  return String(av).localeCompare(String(bv)) * direction;
+}
+
+export default function BatchResults({
+  rows,
+  skipped,
+  selectedInput,
+  onSelect,
+}: BatchResultsProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("row");
+  const [direction, setDirection] = useState<1 | -1>(1);
+
+  const sorted = [...rows].sort((a, b) => compareRows(a, b, sortKey, direction));
+  const failed = rows.filter((r) => r.status === "error").length;
+
+  function handleSort(key: SortKey) {
+    if (key === sortKey) {
+      setDirection(direction === 1 ? -1 : 1);
+    } else {
+      setSortKey(key);
+      setDirection(1);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-zinc-700 bg-zinc-900 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">
+          Batch results
+          <span className="ml-2 text-sm font-normal text-zinc-400">
+            {rows.length} variant{rows.length === 1 ? "" : "s"}
+            {failed > 0 && <> &middot; {failed} failed</>}
+            {skipped > 0 && <> &middot; {skipped} skipped (no protein change)</>}
+          </span>
+        </h2>
+        <span className="text-xs text-zinc-500">Click a row to open it</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-zinc-700 text-xs uppercase tracking-wider text-zinc-500">
+              {COLUMNS.map((col) => (
+                <th key={col.key} className="px-3 py-2 font-medium">
+                  <button
+                    onClick={() => handleSort(col.key)}
+                    className="flex items-center gap-1 uppercase tracking-wider hover:text-zinc-300"
+                  >
+                    {col.label}
+                    {sortKey === col.key && (
+                      <span>{direction === 1 ? "▲" : "▼"}</span>
+                    )}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((row) => (
+              <tr
+                key={row.row}
+                onClick={() => onSelect(row)}
+                className={`cursor-pointer border-b border-zinc-800 transition-colors hover:bg-zinc-800 ${
+                  selectedInput === row.input ? "bg-zinc-800" : ""
+                }`}
+              >
+                <td className="px-3 py-2 font-mono text-xs text-zinc-500">{row.row}</td>
+                <td className="px-3 py-2 font-mono">
+                  <span className="text-emerald-400">{row.gene}</span>{" "}
+                  <span className="text-white">{row.notation ?? row.input}</span>
+                </td>
+                <td className="px-3 py-2 text-zinc-300">{row.proteinName ?? "—"}</td>
+                <td className="px-3 py-2 text-zinc-300">{row.domain ?? "—"}</td>
+                <td className="px-3 py-2 font-mono text-zinc-300">{row.plddt ?? "—"}</td>
+                <td className="px-3 py-2 text-zinc-300">{row.alphamissense ?? "—"}</td>
+                <td className="px-3 py-2 text-zinc-300">{row.clinvar ?? "—"}</td>
+                <td className="px-3 py-2">
+                  {row.status === "ok" ? (
+                    <span className="text-emerald-400" title={row.error ?? undefined}>
+                      {row.error ? "partial" : "ok"}
+                    </span>
+                  ) : (
+                    <span className="text-red-400" title={row.error ?? undefined}>
+                      error
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
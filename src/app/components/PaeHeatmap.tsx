@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useRef, useState, type MouseEvent } from "react";
+import { formatMutation } from "@/lib/hgvs";
+import { meanCrossPae, paeBin, paeCovers, type PaeMatrix } from "@/lib/pae";
+import type { Domain } from "@/lib/uniprot";
+import type { VariantChange } from "@/lib/variant";
+import { SITE_COLORS } from "./StructureViewer";
+
+interface PaeHeatmapProps {
+  pae: PaeMatrix;
+  mutations: VariantChange[];
+  domains: Domain[];
+}
+
+/** Canvas side length in CSS pixels */
+const SIZE = 320;
+
+/** AlphaFold DB colouring: dark green (confident) to white (uncertain) */
+function paeColor(value: number, max: number): string {
+  const t = Math.min(value / max, 1);
+  const r = Math.round(30 + (255 - 30) * t);
+  const g = Math.round(95 + (255 - 95) * t);
+  const b = Math.round(45 + (255 - 45) * t);
+  return `rgb(${r},${g},${b})`;
+}
+
+function placementLabel(pae: number): string {
+  if (pae < 5) return "placed confidently";
+  if (pae < 15) return "placement moderately uncertain";
+  return "placement uncertain";
+}
+
+export default function PaeHeatmap({ pae, mutations, domains }: PaeHeatmapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hover, setHover] = useState<{ i: number; j: number } | null>(null);
+
+  const bins = pae.values.length;
+  const cell = SIZE / bins;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = SIZE * scale;
+    canvas.height = SIZE * scale;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+    for (let i = 0; i < bins; i++) {
+      for (let j = 0; j < bins; j++) {
+        ctx.fillStyle = paeColor(pae.values[i][j], pae.max);
+        ctx.fillRect(j * cell, i * cell, Math.ceil(cell), Math.ceil(cell));
+      }
+    }
+
+    // Each site's row and column in its viewer colour
+    ctx.globalAlpha = 0.6;
+    mutations.forEach((m, index) => {
+      if (!paeCovers(pae, m.position)) return;
+      const first = paeBin(pae, m.position);
+      const last = paeBin(pae, m.end);
+      const band = Math.max((last - first + 1) * cell, 2);
+      ctx.fillStyle = SITE_COLORS[index % SITE_COLORS.length];
+      ctx.fillRect(0, first * cell, SIZE, band);
+      ctx.fillRect(first * cell, 0, band, SIZE);
+    });
+    ctx.globalAlpha = 1;
+  }, [pae, mutations, bins, cell]);
+
+  function handleMove(e: MouseEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const i = Math.floor(((e.clientY - rect.top) / rect.height) * bins);
+    const j = Math.floor(((e.clientX - rect.left) / rect.width) * bins);
+    if (i >= 0 && i < bins && j >= 0 && j < bins) setHover({ i, j });
+  }
+
+  /** Residue range covered by a bin, as shown in the hover readout */
+  function binRange(bin: number): string {
+    const start = pae.start + bin * pae.binSize;
+    const end = pae.start + Math.min((bin + 1) * pae.binSize, pae.size) - 1;
+    return start === end ? `${start}` : `${start}–${end}`;
+  }
+
+  // How well each site's domain (or the site alone) sits relative to the rest
+  const placements = mutations.map((m) => {
+    const domain = domains.find((d) => m.position >= d.start && m.position <= d.end);
+    const start = domain?.start ?? m.position;
+    const end = domain?.end ?? m.end;
+    return {
+      label: domain ? domain.name : `residue ${m.position}`,
+      notation: formatMutation(m),
+      covered: paeCovers(pae, m.position),
+      value: meanCrossPae(pae, start, end),
+    };
+  });
+
+  return (
+    <div className="rounded-lg border border-zinc-700 bg-zinc-900 p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">
+          Predicted aligned error
+        </h3>
+        <span className="text-xs text-zinc-500">
+          {pae.binSize > 1 ? `${pae.binSize}-residue bins` : "per residue"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-6">
+        <canvas
+          ref={canvasRef}
+          onMouseMove={handleMove}
+          onMouseLeave={() => setHover(null)}
+          className="rounded border border-zinc-800"
+          style={{ width: SIZE, height: SIZE }}
+        />
+
+        <div className="min-w-[200px] flex-1 space-y-3 text-sm">
+          <div className="text-xs text-zinc-400">
+            {hover ? (
+              <>
+                Aligned on {binRange(hover.i)}, error at {binRange(hover.j)}:{" "}
+                <span className="font-mono text-white">
+                  {pae.values[hover.i][hover.j]} &Aring;
+                </span>
+              </>
+            ) : (
+              "Hover the map to read the expected error between residues."
+            )}
+          </div>
+
+          {placements.map((p, index) => (
+            <div key={index}>
+              <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-zinc-500">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: SITE_COLORS[index % SITE_COLORS.length] }}
+                />
+                {p.notation}
+              </div>
+              {!p.covered ? (
+                <p className="mt-1 text-zinc-500">Outside this fragment</p>
+              ) : p.value !== null ? (
+                <p className="mt-1 text-zinc-300">
+                  {p.label} vs rest of protein:{" "}
+                  <span className="font-mono text-white">{p.value} &Aring;</span>{" "}
+                  <span className="text-zinc-500">({placementLabel(p.value)})</span>
+                </p>
+              ) : (
+                <p className="mt-1 text-zinc-500">Covers the whole model</p>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            <div
+              className="h-3 w-24 rounded-sm"
+              style={{
+                background: `linear-gradient(to right, ${paeColor(0, 1)}, ${paeColor(1, 1)})`,
+              }}
+            />
+            <span>0 &rarr; {Math.round(pae.max)} &Aring;</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
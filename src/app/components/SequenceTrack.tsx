@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { parseStructure, residueBFactors } from "@/lib/structure";
+import { referenceSpan, spanResidues, type VariantChange } from "@/lib/variant";
+import type { Domain } from "@/lib/uniprot";
+import type { FeatureCategory, ProteinFeature } from "@/lib/features";
+import { SITE_COLORS } from "./StructureViewer";
+
+interface SequenceTrackProps {
+  sequence: string;
+  pdbData: string;
+  domains: Domain[];
+  features: ProteinFeature[];
+  mutations: VariantChange[];
+  focusResidue: number | null;
+  onFocus: (resi: number) => void;
+}
+
+/** Width of one residue column in pixels */
+const CELL_WIDTH = 14;
+
+/** Hover must rest this long before the viewer zooms, so sweeping is calm */
+const HOVER_DELAY_MS = 150;
+
+const DOMAIN_COLORS = ["#7c3aed", "#0891b2", "#c2410c", "#15803d", "#be185d"];
+
+const CATEGORY_COLORS: Record<FeatureCategory, string> = {
+  site: "#ef4444",
+  ptm: "#f59e0b",
+  region: "#3b82f6",
+  membrane: "#a3a3a3",
+  variant: "#10b981",
+};
+
+/** AlphaFold DB confidence bands */
+function plddtColor(plddt: number | undefined): string {
+  if (plddt === undefined) return "transparent";
+  if (plddt >= 90) return "#0053d6";
+  if (plddt >= 70) return "#65cbf3";
+  if (plddt >= 50) return "#ffdb13";
+  return "#ff7d45";
+}
+
+const ROW_LABELS = ["", "Residue", "pLDDT", "Domain", "Features", "Site"];
+
+export default function SequenceTrack({
+  sequence,
+  pdbData,
+  domains,
+  features,
+  mutations,
+  focusResidue,
+  onFocus,
+}: SequenceTrackProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const hoverTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const plddts = useMemo(() => residueBFactors(parseStructure(pdbData)), [pdbData]);
+
+  /* Site index per residue, so each site keeps its viewer color */
+  const siteByResidue = useMemo(() => {
+    const sites = new Map<number, number>();
+    mutations.forEach((m, index) => {
+      for (const resi of spanResidues(referenceSpan(m))) sites.set(resi, index);
+    });
+    return sites;
+  }, [mutations]);
+
+  /* Features covering each residue; bonds only mark their two ends */
+  const featuresByResidue = useMemo(() => {
+    const byResidue = new Map<number, ProteinFeature[]>();
+    const add = (resi: number, f: ProteinFeature) =>
+      byResidue.set(resi, [...(byResidue.get(resi) ?? []), f]);
+    for (const f of features) {
+      if (f.type === "Disulfide bond" || f.type === "Cross-link") {
+        add(f.start, f);
+        add(f.end, f);
+      } else {
+        for (let resi = f.start; resi <= f.end; resi++) add(resi, f);
+      }
+    }
+    return byResidue;
+  }, [features]);
+
+  /* Scroll a residue picked in 3D into view when it is off screen */
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || focusResidue === null) return;
+    const left = (focusResidue - 1) * CELL_WIDTH;
+    const visible =
+      left >= container.scrollLeft &&
+      left + CELL_WIDTH <= container.scrollLeft + container.clientWidth;
+    if (!visible) {
+      container.scrollTo({
+        left: left - container.clientWidth / 2,
+        behavior: "smooth",
+      });
+    }
+  }, [focusResidue]);
+
+  useEffect(() => () => {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+  }, []);
+
+  function handleEnter(resi: number) {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+    hoverTimer.current = setTimeout(() => onFocus(resi), HOVER_DELAY_MS);
+  }
+
+  function handleLeave() {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current);
+  }
+
+  const residues = sequence.split("");
+
+  return (
+    <div className="rounded-lg border border-zinc-700 bg-zinc-900 p-4">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Sequence</h3>
+        <span className="text-xs text-zinc-500">
+          Hover or click a residue to find it in 3D; click an atom to find it here
+        </span>
+      </div>
+
+      <div className="flex">
+        {/* Row labels */}
+        <div className="shrink-0 pr-2 text-right text-[10px] uppercase tracking-wider text-zinc-500">
+          {ROW_LABELS.map((label, i) => (
+            <div key={i} className="flex h-4 items-center justify-end">
+              {label}
+            </div>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="overflow-x-auto pb-2">
+          <div className="flex" style={{ width: residues.length * CELL_WIDTH }}>
+            {residues.map((aa, i) => {
+              const resi = i + 1;
+              const plddt = plddts.get(resi);
+              const domainIndex = domains.findIndex(
+                (d) => resi >= d.start && resi <= d.end
+              );
+              const residueFeatures = featuresByResidue.get(resi) ?? [];
+              const site = siteByResidue.get(resi);
+              const focused = resi === focusResidue;
+
+              const title = [
+                `${aa}${resi}`,
+                plddt !== undefined ? `pLDDT ${plddt}` : null,
+                domainIndex >= 0 ? domains[domainIndex].name : null,
+                ...residueFeatures.map((f) =>
+                  f.description ? `${f.type}: ${f.description}` : f.type
+                ),
+              ]
+                .filter(Boolean)
+                .join("\n");
+
+              return (
+                <button
+                  key={resi}
+                  title={title}
+                  onClick={() => onFocus(resi)}
+                  onMouseEnter={() => handleEnter(resi)}
+                  onMouseLeave={handleLeave}
+                  className={`flex shrink-0 flex-col text-center ${
+                    focused ? "bg-zinc-700" : "hover:bg-zinc-800"
+                  }`}
+                  style={{ width: CELL_WIDTH }}
+                >
+                  {/* Ruler */}
+                  <span className="h-4 text-[9px] leading-4 text-zinc-500">
+                    {resi % 10 === 0 ? resi : ""}
+                  </span>
+                  {/* Residue */}
+                  <span
+                    className={`h-4 font-mono text-[11px] leading-4 ${
+                      site !== undefined ? "font-bold text-white" : "text-zinc-300"
+                    }`}
+                  >
+                    {aa}
+                  </span>
+                  {/* pLDDT */}
+                  <span className="flex h-4 items-center">
+                    <span
+                      className="h-2 w-full"
+                      style={{ backgroundColor: plddtColor(plddt) }}
+                    />
+                  </span>
+                  {/* Domain */}
+                  <span className="flex h-4 items-center">
+                    <span
+                      className="h-2 w-full"
+                      style={{
+                        backgroundColor:
+                          domainIndex >= 0
+                            ? DOMAIN_COLORS[domainIndex % DOMAIN_COLORS.length]
+                            : "transparent",
+                      }}
+                    />
+                  </span>
+                  {/* Features: the first category on the residue sets the color */}
+                  <span className="flex h-4 items-center justify-center">
+                    {residueFeatures.length > 0 && (
+                      <span
+                        className="h-2 w-2 rounded-sm"
+                        style={{
+                          backgroundColor: CATEGORY_COLORS[residueFeatures[0].category],
+                        }}
+                      />
+                    )}
+                  </span>
+                  {/* Site */}
+                  <span className="flex h-4 items-center justify-center">
+                    {site !== undefined && (
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{
+                          backgroundColor: SITE_COLORS[site % SITE_COLORS.length],
+                        }}
+                      />
+                    )}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Feature legend */}
+      <div className="mt-2 flex flex-wrap gap-4 text-[10px] text-zinc-500">
+        {(Object.keys(CATEGORY_COLORS) as FeatureCategory[]).map((category) => (
+          <span key={category} className="flex items-center gap-1">
+            <span
+              className="h-2 w-2 rounded-sm"
+              style={{ backgroundColor: CATEGORY_COLORS[category] }}
+            />
+            {category === "ptm" ? "PTM" : category}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
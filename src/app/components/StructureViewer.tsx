@@ -1,6 +1,24 @@
 "use client";
 
-import { useRef, useEffect, useState } from "react";
+import { useRef, useEffect, useMemo, useState } from "react";
+import { formatMutation } from "@/lib/hgvs";
+import {
+  caCoordinates,
+  parseStructure,
+  residueBFactorChanges,
+  type Coord,
+} from "@/lib/structure";
+import { pairResidues, similarityScores, superposeOn } from "@/lib/superposition";
+import type { Domain } from "@/lib/uniprot";
+import {
+  isTruncating,
+  mutantSpans,
+  mutantToReferenceAll,
+  referenceSpan,
+  spanResidues,
+  type ResidueSpan,
+  type VariantChange,
+} from "@/lib/variant";
 
 declare global {
   interface Window {
@@ -10,52 +28,56 @@ declare global {
 
 interface StructureViewerProps {
   pdbData: string;
-  mutationPosition: number;
-  mutationOriginal: string;
-  mutationMutant: string;
+  mutations: VariantChange[];
   mutantPdbData?: string | null;
+  /** Predicted model of the wild-type sequence, offered as a like-for-like baseline */
+  esmWildPdbData?: string | null;
+  /** Wild-type residues the mutant covers when only a window was folded */
+  foldedRange?: ResidueSpan | null;
+  /** Wild-type residue to highlight and zoom to, e.g. from the sequence track */
+  focusResidue?: number | null;
+  /** Called with the wild-type residue number of a clicked atom */
+  onResiduePick?: (resi: number) => void;
+  /**
+   * "plddt" colours predicted models by B-factor; experimental B-factors
+   * mean something else, so those are coloured N→C with "spectrum"
+   */
+  colorScheme?: "plddt" | "spectrum";
+  /** Names the wild-type model in badges, e.g. "PDB 2OCJ chain A" */
+  modelLabel?: string;
+  /** Offered for a superposition on the first site's domain alone */
+  domains?: Domain[];
+  /** Names the predictor of the mutant (and predicted wild-type) model */
+  predictorLabel?: string;
 }
 
+/** The 3Dmol viewer calls used after the scene is built */
+interface MolViewer {
+  addSphere(spec: object): unknown;
+  removeAllShapes(): void;
+  zoomTo(selection: object, durationMs?: number): void;
+  render(): void;
+}
+
+/** Residues either side of a focused residue kept in frame when zooming */
+const FOCUS_CONTEXT = 6;
+
 const THREEDMOL_CDN = "https://3dmol.csb.pitt.edu/build/3Dmol-min.js";
 
+/** Highlight colors for each site of a compound variant, in input order */
+export const SITE_COLORS = ["magenta", "cyan", "lime", "orange", "deepskyblue", "gold"];
+
+function siteColor(index: number): string {
+  return SITE_COLORS[index % SITE_COLORS.length];
+}
+
 /* ------------------------------------------------------------------ */
 /*  Helpers                                                            */
 /* ------------------------------------------------------------------ */
 
-/** Parse CA atom positions from a PDB string, keyed by residue number. */
-function parseCaAtoms(pdb: string): Map<number, { x: number; y: number; z: number }> {
-  const atoms = new Map<number, { x: number; y: number; z: number }>();
-  const lines = pdb.split("\n");
-  for (const line of lines) {
-    if (!line.startsWith("ATOM  ")) continue;
-    const atomName = line.substring(12, 16).trim();
-    if (atomName !== "CA") continue;
-    const resi = parseInt(line.substring(22, 26).trim(), 10);
-    const x = parseFloat(line.substring(30, 38).trim());
-    const y = parseFloat(line.substring(38, 46).trim());
-    const z = parseFloat(line.substring(46, 54).trim());
-    if (!isNaN(resi) && !isNaN(x) && !isNaN(y) && !isNaN(z)) {
-      atoms.set(resi, { x, y, z });
-    }
-  }
-  return atoms;
-}
-
-/** Compute per-residue RMSD (really just distance for single CA pairs). */
-function computePerResidueRmsd(
-  wildCa: Map<number, { x: number; y: number; z: number }>,
-  mutantCa: Map<number, { x: number; y: number; z: number }>
-): Map<number, number> {
-  const rmsdMap = new Map<number, number>();
-  for (const [resi, wCoord] of wildCa) {
-    const mCoord = mutantCa.get(resi);
-    if (!mCoord) continue;
-    const dx = wCoord.x - mCoord.x;
-    const dy = wCoord.y - mCoord.y;
-    const dz = wCoord.z - mCoord.z;
-    rmsdMap.set(resi, Math.sqrt(dx * dx + dy * dy + dz * dz));
-  }
-  return rmsdMap;
+/** CA positions of the model's protein chain, keyed by residue number */
+function parseCaAtoms(pdb: string): Map<number, Coord> {
+  return caCoordinates(parseStructure(pdb));
 }
 
 /** Ensure the 3Dmol script is loaded. Returns a cleanup function. */
@@ -98,18 +120,44 @@ function load3Dmol(onReady: () => void): () => void {
   };
 }
 
+/** Mark a residue with a translucent sphere and zoom to its neighbourhood */
+function focusViewer(viewer: MolViewer, resi: number | null, ca: Coord | undefined) {
+  viewer.removeAllShapes();
+  if (resi !== null && ca) {
+    viewer.addSphere({ center: ca, radius: 2.2, color: "white", opacity: 0.45 });
+    const context: number[] = [];
+    for (let r = resi - FOCUS_CONTEXT; r <= resi + FOCUS_CONTEXT; r++) context.push(r);
+    viewer.zoomTo({ resi: context }, 400);
+  }
+  viewer.render();
+}
+
 /* ------------------------------------------------------------------ */
 /*  Component                                                          */
 /* ------------------------------------------------------------------ */
 
 export default function StructureViewer({
   pdbData,
-  mutationPosition,
-  mutationOriginal,
-  mutationMutant,
+  mutations,
   mutantPdbData,
+  esmWildPdbData = null,
+  foldedRange = null,
+  focusResidue = null,
+  onResiduePick,
+  colorScheme = "plddt",
+  modelLabel = "AlphaFold",
+  domains = [],
+  predictorLabel = "ESMFold",
 }: StructureViewerProps) {
   const isDual = Boolean(mutantPdbData);
+  const truncation = mutations.find(isTruncating) ?? null;
+
+  // Baseline the mutant is compared with: the loaded model or a predicted wild type
+  const [baseline, setBaseline] = useState<"model" | "esmfold">("esmfold");
+  const esmBaseline = baseline === "esmfold" && Boolean(esmWildPdbData) && isDual;
+  const wildPdbData = esmBaseline ? esmWildPdbData! : pdbData;
+  const wildScheme = esmBaseline ? "plddt" : colorScheme;
+  const wildLabel = esmBaseline ? predictorLabel : modelLabel;
 
   // Refs for single-mode
   const singleWrapperRef = useRef<HTMLDivElement>(null);
@@ -120,6 +168,84 @@ export default function StructureViewer({
 
   const [loading, setLoading] = useState(true);
 
+  // Built viewers, kept for focus changes that should not rebuild the scene
+  const focusViewersRef = useRef<{ wild: MolViewer | null; mutant: MolViewer | null }>({
+    wild: null,
+    mutant: null,
+  });
+
+  // Latest pick callback, read by 3Dmol click handlers
+  const onPickRef = useRef(onResiduePick);
+  useEffect(() => {
+    onPickRef.current = onResiduePick;
+  }, [onResiduePick]);
+
+  const wildCaAtoms = useMemo(() => parseCaAtoms(wildPdbData), [wildPdbData]);
+  const mutantCaAtoms = useMemo(
+    () => (mutantPdbData ? parseCaAtoms(mutantPdbData) : null),
+    [mutantPdbData]
+  );
+
+  /* ---- Superposition of the mutant onto the wild type ---- */
+  const [alignOnDomain, setAlignOnDomain] = useState(false);
+  const residuePairs = useMemo(
+    () =>
+      mutantCaAtoms
+        ? pairResidues(wildCaAtoms, mutantCaAtoms, (resi) => mutantToReferenceAll(mutations, resi))
+        : [],
+    [wildCaAtoms, mutantCaAtoms, mutations]
+  );
+  const siteDomain = useMemo(() => {
+    const first = mutations[0];
+    return first
+      ? domains.find((d) => first.position >= d.start && first.position <= d.end) ?? null
+      : null;
+  }, [domains, mutations]);
+  const globalFit = useMemo(() => superposeOn(residuePairs), [residuePairs]);
+  const domainFit = useMemo(
+    () =>
+      siteDomain
+        ? superposeOn(
+            residuePairs,
+            (pair) => pair.reference >= siteDomain.start && pair.reference <= siteDomain.end
+          )
+        : null,
+    [residuePairs, siteDomain]
+  );
+  // A folded window is scored against the matching stretch of the wild type
+  const scores = useMemo(() => {
+    const compared = foldedRange
+      ? [...wildCaAtoms.keys()].filter((r) => r >= foldedRange.start && r <= foldedRange.end).length
+      : wildCaAtoms.size;
+    return similarityScores(residuePairs, compared);
+  }, [residuePairs, wildCaAtoms, foldedRange]);
+  const activeFit = alignOnDomain && domainFit ? domainFit : globalFit;
+  const deviations = activeFit?.deviations ?? null;
+
+  /* ---- pLDDT change, meaningful only between two ESMFold models ---- */
+  const [mutantColoring, setMutantColoring] = useState<"deviation" | "plddt">("deviation");
+  const plddtChanges = useMemo(
+    () =>
+      esmWildPdbData && mutantPdbData
+        ? residueBFactorChanges(
+            parseStructure(esmWildPdbData),
+            parseStructure(mutantPdbData),
+            (resi) => mutantToReferenceAll(mutations, resi)
+          )
+        : null,
+    [esmWildPdbData, mutantPdbData, mutations]
+  );
+  const showPlddtChange = mutantColoring === "plddt" && plddtChanges !== null;
+  const sitePlddtChanges = useMemo(
+    () =>
+      plddtChanges
+        ? mutantSpans(mutations).map((span) =>
+            span ? plddtChanges.get(span.start) ?? null : null
+          )
+        : [],
+    [plddtChanges, mutations]
+  );
+
   /* ---- Main effect: build viewers whenever props change ---- */
   useEffect(() => {
     let cancelled = false;
@@ -149,39 +275,60 @@ export default function StructureViewer({
         return div;
       }
 
-      /* ---------- helper: apply wild-type styling ---------- */
-      function styleWildType(viewer: any, pos: number) {
-        // Cartoon colored by pLDDT (B-factor)
-        viewer.setStyle(
-          {},
-          {
-            cartoon: {
+      const wildSites = mutations.map((m) => spanResidues(referenceSpan(m)));
+      const mutantSites = mutantSpans(mutations).map((span) =>
+        span ? spanResidues(span) : []
+      );
+      const allWildSites = wildSites.flat();
+      const allMutantSites = mutantSites.flat();
+
+      // Cartoon colored by pLDDT (B-factor), or N→C for experimental models
+      const wildCartoon =
+        wildScheme === "spectrum"
+          ? { color: "spectrum" }
+          : {
               colorscheme: {
                 prop: "b",
                 gradient: "roygb",
                 min: 50,
                 max: 100,
               },
-            },
-          }
-        );
+            };
 
-        // Mutation residue: magenta spheres + sticks layered on cartoon
-        viewer.setStyle(
-          { resi: pos },
-          {
-            cartoon: {
-              colorscheme: {
-                prop: "b",
-                gradient: "roygb",
-                min: 50,
-                max: 100,
-              },
+      /* ---------- helper: apply wild-type styling ---------- */
+      function styleWildType(viewer: any) {
+        viewer.setStyle({}, { cartoon: wildCartoon });
+
+        // Outside a folded window there is nothing to compare with
+        if (isDual && foldedRange) {
+          viewer.setStyle(
+            {
+              predicate: (atom: { resi: number }) =>
+                atom.resi < foldedRange.start || atom.resi > foldedRange.end,
             },
-            sphere: { color: "magenta", radius: 1.2 },
-            stick: { color: "magenta", radius: 0.2 },
-          }
-        );
+            { cartoon: { color: "#52525b", opacity: 0.35 } }
+          );
+        }
+
+        // Truncating variants: residues after the stop are lost in the mutant
+        if (truncation) {
+          viewer.setStyle(
+            { predicate: (atom: { resi: number }) => atom.resi >= truncation.position },
+            { cartoon: { color: "#52525b", opacity: 0.35 } }
+          );
+        }
+
+        // Mutation residues: spheres + sticks in each site's color, layered on cartoon
+        wildSites.forEach((site, index) => {
+          viewer.setStyle(
+            { resi: site },
+            {
+              cartoon: wildCartoon,
+              sphere: { color: siteColor(index), radius: 1.2 },
+              stick: { color: siteColor(index), radius: 0.2 },
+            }
+          );
+        });
       }
 
       /* ==================== SINGLE MODE ==================== */
@@ -194,15 +341,19 @@ export default function StructureViewer({
           backgroundColor: "0x1a1a1a",
         });
 
-        viewer.addModel(pdbData, "pdb");
-        styleWildType(viewer, mutationPosition);
+        viewer.addModel(wildPdbData, "pdb");
+        styleWildType(viewer);
+        viewer.setClickable({}, true, (atom: { resi: number }) =>
+          onPickRef.current?.(atom.resi)
+        );
 
         viewer.render();
-        viewer.zoomTo({ resi: mutationPosition });
+        viewer.zoomTo({ resi: allWildSites });
         viewer.zoom(0.6);
         viewer.render();
 
         singleViewer = viewer;
+        focusViewersRef.current = { wild: viewer, mutant: null };
         if (!cancelled) setLoading(false);
         return;
       }
@@ -218,20 +369,42 @@ export default function StructureViewer({
         backgroundColor: "0x1a1a1a",
       });
 
-      wViewer.addModel(pdbData, "pdb");
-      styleWildType(wViewer, mutationPosition);
+      wViewer.addModel(wildPdbData, "pdb");
+      styleWildType(wViewer);
+      wViewer.setClickable({}, true, (atom: { resi: number }) =>
+        onPickRef.current?.(atom.resi)
+      );
 
       wViewer.render();
-      wViewer.zoomTo({ resi: mutationPosition });
+      wViewer.zoomTo({ resi: allWildSites });
       wViewer.zoom(0.6);
       wViewer.render();
 
       wildViewer = wViewer;
 
-      // --- Right panel: Mutant with RMSD coloring ---
-      const wildCa = parseCaAtoms(pdbData);
-      const mutantCa = parseCaAtoms(mutantPdbData);
-      const rmsdMap = computePerResidueRmsd(wildCa, mutantCa);
+      // --- Right panel: Mutant coloured by deviation after superposition ---
+      // white (0) -> yellow (2A) -> red (5A+)
+      function rmsdColor(atom: { resi: number }): string {
+        const rmsd = deviations?.get(atom.resi) ?? 0;
+        if (rmsd < 2) {
+          const t = rmsd / 2;
+          const b = Math.round(255 * (1 - t));
+          return "rgb(255,255," + b + ")";
+        }
+        const t = Math.min((rmsd - 2) / 3, 1);
+        const g = Math.round(255 * (1 - t));
+        return "rgb(255," + g + ",0)";
+      }
+
+      // red (pLDDT lost) -> white (unchanged) -> blue (pLDDT gained), saturating at ±20
+      function plddtChangeColor(atom: { resi: number }): string {
+        const delta = plddtChanges?.get(atom.resi) ?? 0;
+        const fade = Math.round(255 * (1 - Math.min(Math.abs(delta) / 20, 1)));
+        return delta < 0
+          ? "rgb(255," + fade + "," + fade + ")"
+          : "rgb(" + fade + "," + fade + ",255)";
+      }
+      const mutantColor = showPlddtChange ? plddtChangeColor : rmsdColor;
 
       mutantMolDiv = makeMolDiv(mutantWrapper);
       const mViewer = $3Dmol.createViewer(mutantMolDiv, {
@@ -240,65 +413,35 @@ export default function StructureViewer({
 
       mViewer.addModel(mutantPdbData, "pdb");
 
-      // Cartoon colored by per-residue RMSD
-      mViewer.setStyle(
-        {},
-        {
-          cartoon: {
-            colorfunc: function (atom: any) {
-              const rmsd = rmsdMap.get(atom.resi) ?? 0;
-              // white (0) -> yellow (2A) -> red (5A+)
-              if (rmsd < 2) {
-                const t = rmsd / 2;
-                const r = Math.round(255);
-                const g = Math.round(255);
-                const b = Math.round(255 * (1 - t));
-                return "rgb(" + r + "," + g + "," + b + ")";
-              } else {
-                const t = Math.min((rmsd - 2) / 3, 1);
-                const r = 255;
-                const g = Math.round(255 * (1 - t));
-                const b = 0;
-                return "rgb(" + r + "," + g + "," + b + ")";
-              }
-            },
-          },
-        }
-      );
+      // Picks in the mutant map back to wild-type numbering; inserted residues have none
+      mViewer.setClickable({}, true, (atom: { resi: number }) => {
+        const ref = mutantToReferenceAll(mutations, atom.resi);
+        if (ref !== null) onPickRef.current?.(ref);
+      });
 
-      // Mutation residue: magenta spheres + sticks on top of RMSD cartoon
-      mViewer.setStyle(
-        { resi: mutationPosition },
-        {
-          cartoon: {
-            colorfunc: function (atom: any) {
-              const rmsd = rmsdMap.get(atom.resi) ?? 0;
-              if (rmsd < 2) {
-                const t = rmsd / 2;
-                const r = Math.round(255);
-                const g = Math.round(255);
-                const b = Math.round(255 * (1 - t));
-                return "rgb(" + r + "," + g + "," + b + ")";
-              } else {
-                const t = Math.min((rmsd - 2) / 3, 1);
-                const r = 255;
-                const g = Math.round(255 * (1 - t));
-                const b = 0;
-                return "rgb(" + r + "," + g + "," + b + ")";
-              }
-            },
-          },
-          sphere: { color: "magenta", radius: 1.2 },
-          stick: { color: "magenta", radius: 0.2 },
-        }
-      );
+      // Cartoon colored by per-residue deviation or pLDDT change
+      mViewer.setStyle({}, { cartoon: { colorfunc: mutantColor } });
+
+      // Mutation residues: spheres + sticks in each site's color on top of RMSD cartoon
+      mutantSites.forEach((site, index) => {
+        if (site.length === 0) return;
+        mViewer.setStyle(
+          { resi: site },
+          {
+            cartoon: { colorfunc: mutantColor },
+            sphere: { color: siteColor(index), radius: 1.2 },
+            stick: { color: siteColor(index), radius: 0.2 },
+          }
+        );
+      });
 
       mViewer.render();
-      mViewer.zoomTo({ resi: mutationPosition });
+      mViewer.zoomTo(allMutantSites.length > 0 ? { resi: allMutantSites } : {});
       mViewer.zoom(0.6);
       mViewer.render();
 
       mutantViewer = mViewer;
+      focusViewersRef.current = { wild: wViewer, mutant: mViewer };
 
       if (!cancelled) setLoading(false);
     });
@@ -307,6 +450,7 @@ export default function StructureViewer({
     return () => {
       cancelled = true;
       cleanup();
+      focusViewersRef.current = { wild: null, mutant: null };
 
       // Destroy viewers
       if (singleViewer) { singleViewer.clear(); singleViewer = null; }
@@ -324,13 +468,69 @@ export default function StructureViewer({
         mutantWrapperRef.current.removeChild(mutantMolDiv);
       }
     };
-  }, [pdbData, mutantPdbData, mutationPosition, isDual]);
+  }, [wildPdbData, mutantPdbData, mutations, truncation, isDual, wildScheme, deviations, plddtChanges, showPlddtChange, foldedRange]);
+
+  /* ---- Focus effect: highlight the focused residue without rebuilding ---- */
+  useEffect(() => {
+    if (loading) return;
+    const { wild, mutant } = focusViewersRef.current;
+    if (wild) {
+      focusViewer(wild, focusResidue, focusResidue === null ? undefined : wildCaAtoms.get(focusResidue));
+    }
+    if (mutant && mutantCaAtoms) {
+      let mutantResi: number | null = null;
+      if (focusResidue !== null) {
+        for (const resi of mutantCaAtoms.keys()) {
+          if (mutantToReferenceAll(mutations, resi) === focusResidue) {
+            mutantResi = resi;
+            break;
+          }
+        }
+      }
+      focusViewer(mutant, mutantResi, mutantResi === null ? undefined : mutantCaAtoms.get(mutantResi));
+    }
+  }, [focusResidue, loading, wildCaAtoms, mutantCaAtoms, mutations]);
 
   /* ---------------------------------------------------------------- */
   /*  Render                                                           */
   /* ---------------------------------------------------------------- */
 
-  const mutationLabel = `${mutationOriginal}${mutationPosition}${mutationMutant}`;
+  /* One legend entry per site, in the site's highlight color */
+  const siteLegend = mutations.map((m, index) => (
+    <div key={index} className="flex items-center gap-2">
+      <div
+        className="h-3 w-3 rounded-full"
+        style={{ backgroundColor: siteColor(index) }}
+      />
+      <span>Mutation site ({formatMutation(m)})</span>
+    </div>
+  ));
+
+  /* Colour key for the wild-type cartoon */
+  const wildLegend =
+    wildScheme === "spectrum" ? (
+      <div className="flex items-center gap-2">
+        <div
+          className="h-3 w-32 rounded-sm"
+          style={{
+            background:
+              "linear-gradient(to right, #0000ff, #00ffff, #00ff00, #ffff00, #ff0000)",
+          }}
+        />
+        <span>N-terminus &rarr; C-terminus</span>
+      </div>
+    ) : (
+      <div className="flex items-center gap-2">
+        <div
+          className="h-3 w-32 rounded-sm"
+          style={{
+            background:
+              "linear-gradient(to right, #0000ff, #00ff00, #ffff00, #ff8800, #ff0000)",
+          }}
+        />
+        <span>pLDDT: 50 (low) &rarr; 100 (high)</span>
+      </div>
+    );
 
   /* Loading overlay shared between modes */
   const loadingOverlay = loading ? (
@@ -360,7 +560,7 @@ export default function StructureViewer({
 
           {/* Wild-type badge */}
           <div className="absolute top-3 left-3 z-10 pointer-events-none rounded-md bg-black/70 backdrop-blur-sm px-3 py-1.5 text-xs text-zinc-300">
-            Wild-type structure &mdash; mutation site highlighted
+            Wild-type {modelLabel} structure &mdash; mutation site highlighted
           </div>
 
           {/* Wrapper for imperative 3Dmol div */}
@@ -372,23 +572,17 @@ export default function StructureViewer({
 
         {/* Legend */}
         <div className="mt-3 flex flex-wrap items-center gap-6 text-xs text-zinc-400">
-          <div className="flex items-center gap-2">
-            <div
-              className="h-3 w-32 rounded-sm"
-              style={{
-                background:
-                  "linear-gradient(to right, #0000ff, #00ff00, #ffff00, #ff8800, #ff0000)",
-              }}
-            />
-            <span>pLDDT: 50 (low) &rarr; 100 (high)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div
-              className="h-3 w-3 rounded-full"
-              style={{ backgroundColor: "magenta" }}
-            />
-            <span>Mutation site ({mutationLabel})</span>
-          </div>
+          {wildLegend}
+          {siteLegend}
+          {truncation && (
+            <div className="flex items-center gap-2">
+              <div
+                className="h-3 w-3 rounded-sm opacity-50"
+                style={{ backgroundColor: "#52525b" }}
+              />
+              <span>Lost after truncation</span>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -408,7 +602,7 @@ export default function StructureViewer({
 
           {/* Blue badge */}
           <div className="absolute top-3 left-3 z-10 pointer-events-none rounded-md bg-blue-600/80 backdrop-blur-sm px-3 py-1.5 text-xs text-white font-medium">
-            Wild-type (AlphaFold)
+            Wild-type ({wildLabel})
           </div>
 
           {/* Wrapper for imperative 3Dmol div */}
@@ -427,7 +621,7 @@ export default function StructureViewer({
 
           {/* Orange badge */}
           <div className="absolute top-3 left-3 z-10 pointer-events-none rounded-md bg-orange-600/80 backdrop-blur-sm px-3 py-1.5 text-xs text-white font-medium">
-            Mutant (ESMFold)
+            Mutant ({predictorLabel})
           </div>
 
           {/* Wrapper for imperative 3Dmol div */}
@@ -440,39 +634,153 @@ export default function StructureViewer({
 
       {/* Legend */}
       <div className="mt-3 flex flex-wrap items-center gap-6 text-xs text-zinc-400">
-        {/* pLDDT color bar */}
-        <div className="flex items-center gap-2">
-          <div
-            className="h-3 w-32 rounded-sm"
-            style={{
-              background:
-                "linear-gradient(to right, #0000ff, #00ff00, #ffff00, #ff8800, #ff0000)",
-            }}
-          />
-          <span>pLDDT: 50 (low) &rarr; 100 (high)</span>
-        </div>
+        {/* pLDDT or N→C color bar */}
+        {wildLegend}
 
-        {/* RMSD color bar */}
-        <div className="flex items-center gap-2">
-          <div
-            className="h-3 w-32 rounded-sm"
-            style={{
-              background:
-                "linear-gradient(to right, #ffffff, #ffff00 40%, #ff0000)",
-            }}
-          />
-          <span>RMSD: 0 &rarr; 2 &rarr; 5+ &Aring;</span>
-        </div>
+        {/* Mutant colour bar: deviation or pLDDT change */}
+        {showPlddtChange ? (
+          <div className="flex items-center gap-2">
+            <div
+              className="h-3 w-32 rounded-sm"
+              style={{
+                background: "linear-gradient(to right, #ff0000, #ffffff, #0000ff)",
+              }}
+            />
+            <span>pLDDT change: &minus;20 &rarr; 0 &rarr; +20</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <div
+              className="h-3 w-32 rounded-sm"
+              style={{
+                background:
+                  "linear-gradient(to right, #ffffff, #ffff00 40%, #ff0000)",
+              }}
+            />
+            <span>Deviation after superposition: 0 &rarr; 2 &rarr; 5+ &Aring;</span>
+          </div>
+        )}
 
-        {/* Mutation site indicator */}
-        <div className="flex items-center gap-2">
-          <div
-            className="h-3 w-3 rounded-full"
-            style={{ backgroundColor: "magenta" }}
-          />
-          <span>Mutation site ({mutationLabel})</span>
-        </div>
+        {/* Mutation site indicators */}
+        {siteLegend}
+
+        {/* Truncated tail indicator */}
+        {truncation && (
+          <div className="flex items-center gap-2">
+            <div
+              className="h-3 w-3 rounded-sm opacity-50"
+              style={{ backgroundColor: "#52525b" }}
+            />
+            <span>Missing in mutant (truncated)</span>
+          </div>
+        )}
+
+        {/* Residues left out of a folded window */}
+        {foldedRange && (
+          <div className="flex items-center gap-2">
+            <div
+              className="h-3 w-3 rounded-sm opacity-50"
+              style={{ backgroundColor: "#52525b" }}
+            />
+            <span>
+              Outside the folded window ({foldedRange.start}&ndash;{foldedRange.end})
+            </span>
+          </div>
+        )}
       </div>
+
+      {/* Baseline and mutant colouring, when an ESMFold wild type is loaded */}
+      {esmWildPdbData && (
+        <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2 text-xs text-zinc-400">
+          <div className="flex items-center gap-2">
+            <span>Baseline</span>
+            {(["esmfold", "model"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setBaseline(option)}
+                className={`rounded px-2 py-1 ${
+                  baseline === option ? "bg-zinc-700 text-white" : "text-zinc-400 hover:text-white"
+                }`}
+              >
+                {option === "esmfold" ? `${predictorLabel} WT` : `${modelLabel} WT`}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span>Colour mutant by</span>
+            {(["deviation", "plddt"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMutantColoring(option)}
+                className={`rounded px-2 py-1 ${
+                  mutantColoring === option ? "bg-zinc-700 text-white" : "text-zinc-400 hover:text-white"
+                }`}
+              >
+                {option === "deviation" ? "Deviation" : "pLDDT change"}
+              </button>
+            ))}
+          </div>
+          {sitePlddtChanges.map((delta, index) =>
+            delta === null ? null : (
+              <span key={index} className="flex items-center gap-1.5">
+                <span
+                  className="h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: siteColor(index) }}
+                />
+                {formatMutation(mutations[index])} &Delta;pLDDT{" "}
+                <span className={`font-mono ${delta < 0 ? "text-red-400" : "text-blue-300"}`}>
+                  {delta > 0 ? "+" : ""}
+                  {delta}
+                </span>
+              </span>
+            )
+          )}
+        </div>
+      )}
+
+      {/* Global similarity and the superposition used for the colouring */}
+      {globalFit && (
+        <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2 rounded-lg border border-zinc-800 bg-zinc-950 px-4 py-3 text-xs text-zinc-400">
+          <span>
+            RMSD <span className="font-mono text-white">{globalFit.rmsd} &Aring;</span>
+          </span>
+          <span>
+            TM-score <span className="font-mono text-white">{scores.tmScore}</span>
+          </span>
+          <span>
+            GDT-TS <span className="font-mono text-white">{scores.gdtTs}</span>
+          </span>
+          <span className="text-zinc-500">{globalFit.count} CA pairs</span>
+
+          {siteDomain && domainFit && (
+            <div className="ml-auto flex items-center gap-2">
+              <span>Align on</span>
+              {[false, true].map((onDomain) => (
+                <button
+                  key={String(onDomain)}
+                  type="button"
+                  onClick={() => setAlignOnDomain(onDomain)}
+                  className={`rounded px-2 py-1 ${
+                    alignOnDomain === onDomain
+                      ? "bg-zinc-700 text-white"
+                      : "text-zinc-400 hover:text-white"
+                  }`}
+                >
+                  {onDomain ? siteDomain.name : "Whole model"}
+                </button>
+              ))}
+              {alignOnDomain && (
+                <span>
+                  local RMSD{" "}
+                  <span className="font-mono text-white">{domainFit.rmsd} &Aring;</span>
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
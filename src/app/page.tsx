@@ -1,73 +1,61 @@
 "use client";
 
-import { useState, FormEvent, useEffect } from "react";
-import StructureViewer from "./components/StructureViewer";
-
-interface ParsedMutation {
-  gene: string;
-  original: string;
-  position: number;
-  mutant: string;
-}
-
-interface ProteinInfo {
-  uniprotId: string;
-  proteinName: string;
-  geneName: string;
-  function: string;
-  domains: { name: string; start: number; end: number }[];
-  sequence: string;
-}
+import { useState, FormEvent, useEffect, ChangeEvent, useCallback, useRef } from "react";
+import StructureViewer, { SITE_COLORS } from "./components/StructureViewer";
+import BatchResults from "./components/BatchResults";
+import SequenceTrack from "./components/SequenceTrack";
+import PaeHeatmap from "./components/PaeHeatmap";
+import { formatMutation, parseMutations, type ParsedMutation } from "@/lib/hgvs";
+import { applyVariants } from "@/lib/variant";
+import { isCdnaNotation } from "@/lib/cdna";
+import {
+  HUMAN_TAXON_ID,
+  nonCanonicalIsoform,
+  ORGANISMS,
+  type GeneCandidate,
+  type ProteinInfo,
+} from "@/lib/uniprot";
+import type { StructureData } from "@/lib/alphafold";
+import { joinSites, summarizeSites, type SiteSummary } from "@/lib/annotations";
+import type { BatchResultRow } from "@/lib/batch";
+import { describeFeature, FEATURE_WINDOW, type FeatureHit } from "@/lib/features";
+import type { ExperimentalStructure, PdbEntry } from "@/lib/experimental";
+import type { FoldWindow } from "@/lib/foldwindow";
+import type { FoldJob } from "@/lib/foldjobs";
+import type { FoldingProviderInfo } from "@/lib/folding";
+import { describeReference, type NumberingResult } from "@/lib/numbering";
+import { readSseEvents } from "@/lib/sse";
+import {
+  EVIDENCE_LABELS,
+  type EvidenceField,
+  type StructuredExplanation,
+} from "@/lib/explanation";
+import {
+  AUDIENCES,
+  DEFAULT_EXPLANATION_MODE,
+  DETAIL_LEVELS,
+  LANGUAGES,
+  type EvidenceFrame,
+  type ExplanationMode,
+} from "@/lib/prompts";
 
-interface StructureData {
-  pdbData: string;
-  avgPlddt: number;
-  modelUrl: string;
+interface CdnaInfo {
+  transcript: string;
+  cdnaChange: string;
+  refCodon: string;
+  altCodon: string;
 }
 
 interface MutantData {
   pdbData: string;
   avgPlddt: number;
-}
-
-function parseMutation(input: string): ParsedMutation | null {
-  const trimmed = input.trim();
-  const match = trimmed.match(
-    /^([A-Za-z][A-Za-z0-9]*)\s+([A-Za-z])(\d+)([A-Za-z])$/
-  );
-  if (!match) return null;
-  return {
-    gene: match[1].toUpperCase(),
-    original: match[2].toUpperCase(),
-    position: parseInt(match[3], 10),
-    mutant: match[4].toUpperCase(),
-  };
-}
-
-/** Extract average B-factor (pLDDT) for a specific residue from PDB text */
-function getResiduePlddt(pdbData: string, resi: number): number | null {
-  let sum = 0;
-  let count = 0;
-  for (const line of pdbData.split("\n")) {
-    if (!line.startsWith("ATOM  ")) continue;
-    const resSeq = parseInt(line.substring(22, 26).trim(), 10);
-    if (resSeq !== resi) continue;
-    const bFactor = parseFloat(line.substring(60, 66).trim());
-    if (!isNaN(bFactor)) {
-      sum += bFactor;
-      count++;
-    }
-  }
-  return count > 0 ? Math.round((sum / count) * 10) / 10 : null;
-}
-
-/** Find which domain a position falls in */
-function findDomain(
-  domains: { name: string; start: number; end: number }[],
-  position: number
-): string | null {
-  const d = domains.find((d) => position >= d.start && position <= d.end);
-  return d ? d.name : null;
+  /** Predicted model of the wild-type sequence, when it was folded too */
+  wildType: { pdbData: string; avgPlddt: number } | null;
+  /** Set when only a window of a long protein was folded */
+  window: FoldWindow | null;
+  note: string | null;
+  /** Name of the folding provider that made the models */
+  provider: string;
 }
 
 const AMINO_ACIDS: Record<string, string> = {
@@ -76,153 +64,421 @@ const AMINO_ACIDS: Record<string, string> = {
   H: "Histidine", I: "Isoleucine", L: "Leucine", K: "Lysine",
   M: "Methionine", F: "Phenylalanine", P: "Proline", S: "Serine",
   T: "Threonine", W: "Tryptophan", Y: "Tyrosine", V: "Valine",
+  "*": "Stop",
 };
 
-const KNOWN_ANNOTATIONS: Record<
-  string,
-  { alphamissense: string; clinvar: string }
-> = {
-  "TP53_R175H": {
-    alphamissense: "0.9461 (likely_pathogenic)",
-    clinvar: "Pathogenic — Li-Fraumeni syndrome",
-  },
-  "HBB_E6V": {
-    alphamissense: "0.7532 (likely_pathogenic)",
-    clinvar: "Pathogenic — Sickle cell disease",
-  },
-  "BRCA1_C61G": {
-    alphamissense: "0.8901 (likely_pathogenic)",
-    clinvar: "Pathogenic — Hereditary breast/ovarian cancer",
-  },
-  "EGFR_L858R": {
-    alphamissense: "0.6213 (ambiguous)",
-    clinvar: "Pathogenic/Likely pathogenic — Non-small cell lung cancer",
-  },
-  "BRAF_V600E": {
-    alphamissense: "0.9834 (likely_pathogenic)",
-    clinvar: "Pathogenic — Melanoma, colorectal cancer",
-  },
+/** Human-readable description of the change shown in the summary bar */
+function describeChange(m: ParsedMutation): string {
+  const name = (aa: string) => AMINO_ACIDS[aa] ?? aa;
+  const length = m.end - m.position + 1;
+  switch (m.type) {
+    case "missense":
+    case "nonsense":
+      return `${name(m.original)} → ${name(m.mutant)}`;
+    case "synonymous":
+      return `${name(m.original)} unchanged (synonymous)`;
+    case "deletion":
+      return `In-frame deletion of ${length} residue${length === 1 ? "" : "s"}`;
+    case "insertion":
+      return `In-frame insertion of ${m.mutant.length} residue${m.mutant.length === 1 ? "" : "s"}`;
+    case "delins":
+      return `${length} residue${length === 1 ? "" : "s"} replaced by ${m.mutant.length}`;
+    case "frameshift":
+      return `Frameshift from ${name(m.original)} ${m.position} (truncated)`;
+  }
+}
+
+/**
+ * Structure request for the selected isoform of a looked-up protein; the
+ * positions pick the fragment of proteins AlphaFold splits up.
+ */
+function structureUrl(protein: ProteinInfo, positions: number[]): string {
+  const isoform = nonCanonicalIsoform(protein);
+  return (
+    `/api/structure?uniprotId=${encodeURIComponent(protein.uniprotId)}` +
+    (isoform ? `&isoform=${encodeURIComponent(isoform)}` : "") +
+    (positions.length > 0 ? `&positions=${positions.join(",")}` : "")
+  );
+}
+
+/** Polling interval for fold jobs when the event stream is unavailable */
+const FOLD_POLL_MS = 3000;
+
+/** localStorage key remembering the fold job of a variant across reloads */
+function foldJobKey(protein: ProteinInfo, notation: string): string {
+  return `fold-job:${protein.isoformId ?? protein.uniprotId}:${notation}`;
+}
+
+/** Natural variant annotated with exactly this substitution */
+function isSameVariant(hit: FeatureHit, mutation: ParsedMutation): boolean {
+  return (
+    hit.distance === 0 &&
+    hit.feature.variation !== null &&
+    hit.feature.start === mutation.position &&
+    hit.feature.variation.alternatives.includes(mutation.mutant)
+  );
+}
+
+const EVIDENCE_FRAME_LABELS: Record<EvidenceFrame, string> = {
+  pathogenic: "Evidence: pathogenic",
+  benign: "Evidence: benign",
+  conflicting: "Evidence: conflicting",
+  mixed: "Evidence: differs by site",
+  missing: "Evidence: none informative",
 };
 
-function getAnnotations(gene: string, mutation: string) {
-  const key = `${gene}_${mutation}`;
-  return KNOWN_ANNOTATIONS[key] || null;
+/** The evidence fields sent to /api/explain, which its claims cite */
+function explanationEvidence(
+  sites: SiteSummary[],
+  structure: StructureData
+): Record<EvidenceField, string | number> {
+  return {
+    domain: joinSites(sites, (site) => site.domain ?? "No annotated domain"),
+    plddt: sites[0].plddt ?? structure.avgPlddt,
+    alphamissense: joinSites(sites, (site) => site.annotations?.alphamissense ?? "Not available"),
+    clinvar: joinSites(sites, (site) => site.annotations?.clinvar ?? "Not available"),
+    features: joinSites(sites, (site) =>
+      site.features.length > 0
+        ? site.features
+            .map((hit) => `${describeFeature(hit.feature)} (${hit.distance === 0 ? "at site" : `±${hit.distance}`})`)
+            .join(", ")
+        : `None within ${FEATURE_WINDOW} residues`
+    ),
+  };
 }
 
 export default function Home() {
   const [query, setQuery] = useState("");
-  const [mutation, setMutation] = useState<ParsedMutation | null>(null);
+  const [taxonId, setTaxonId] = useState(HUMAN_TAXON_ID);
+  const [includeUnreviewed, setIncludeUnreviewed] = useState(false);
+  const [mutations, setMutations] = useState<ParsedMutation[]>([]);
+  // The changes as typed; `mutations` holds them in UniProt numbering
+  const [enteredMutations, setEnteredMutations] = useState<ParsedMutation[]>([]);
+  const [numbering, setNumbering] = useState<NumberingResult<ParsedMutation> | null>(null);
+  const [cdna, setCdna] = useState<CdnaInfo | null>(null);
   const [protein, setProtein] = useState<ProteinInfo | null>(null);
+  const [candidates, setCandidates] = useState<GeneCandidate[]>([]);
   const [structure, setStructure] = useState<StructureData | null>(null);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const [explanation, setExplanation] = useState("");
   const [explainLoading, setExplainLoading] = useState(false);
+  // The validated reply; `explanation` holds its summary while it streams in
+  const [structuredExplanation, setStructuredExplanation] = useState<StructuredExplanation | null>(null);
+  // True while `explanation` is a streamed summary the server has not validated yet
+  const [explanationDraft, setExplanationDraft] = useState(false);
+  // Evidence field whose Verdict rows are highlighted while its claim is hovered
+  const [hoveredEvidence, setHoveredEvidence] = useState<EvidenceField | null>(null);
+  // Why the explanation ended early: stopped by the user, or a stream error
+  const [explainInterrupted, setExplainInterrupted] = useState<string | null>(null);
+  const explainController = useRef<AbortController | null>(null);
+  const [explainMode, setExplainMode] = useState<ExplanationMode>(DEFAULT_EXPLANATION_MODE);
+  // The provider and model that wrote the explanation, and how its evidence was read
+  const [explainSource, setExplainSource] = useState<{
+    provider: string;
+    model: string;
+    frame: EvidenceFrame;
+  } | null>(null);
   const [mutantStructure, setMutantStructure] = useState<MutantData | null>(null);
-  const [mutantLoading, setMutantLoading] = useState(false);
+  const [focusResidue, setFocusResidue] = useState<number | null>(null);
+  const [pdbEntries, setPdbEntries] = useState<PdbEntry[] | null>(null);
+  const [pdbEntriesLoading, setPdbEntriesLoading] = useState(false);
+  const [experimental, setExperimental] = useState<ExperimentalStructure | null>(null);
+  const [experimentalError, setExperimentalError] = useState("");
+  const [foldJob, setFoldJob] = useState<FoldJob | null>(null);
+  // Stops following the current fold job's events or polling
+  const foldFollower = useRef<(() => void) | null>(null);
   const [mutantError, setMutantError] = useState("");
+  const [foldWildType, setFoldWildType] = useState(true);
+  const [foldingProvider, setFoldingProvider] = useState<FoldingProviderInfo | null>(null);
+  const [batchRows, setBatchRows] = useState<BatchResultRow[] | null>(null);
+  const [batchSkipped, setBatchSkipped] = useState(0);
+  const [batchLoading, setBatchLoading] = useState(false);
+  const [batchError, setBatchError] = useState("");
 
   // Derived values
-  const mutationNotation = mutation
-    ? `${mutation.original}${mutation.position}${mutation.mutant}`
-    : "";
-  const domainName =
-    mutation && protein
-      ? findDomain(protein.domains, mutation.position)
-      : null;
-  const residuePlddt =
-    mutation && structure
-      ? getResiduePlddt(structure.pdbData, mutation.position)
-      : null;
-  const annotations = mutation
-    ? getAnnotations(mutation.gene, mutationNotation)
-    : null;
+  // The first change carries the gene and transcript shared by all sites
+  const mutation = mutations.length > 0 ? mutations[0] : null;
+  const sites = summarizeSites(mutations, protein, structure);
+  const evidence = structure && sites.length > 0 ? explanationEvidence(sites, structure) : null;
+  const mutationNotation = sites.map((site) => site.notation).join(" + ");
+  const renumbered = numbering?.sites.some((site) => site.position !== site.inputPosition) ?? false;
+  const noProteinChange =
+    mutations.length > 0 && mutations.every((m) => m.type === "synonymous");
+  const mutantLength = protein
+    ? applyVariants(protein.sequence, mutations).length
+    : 0;
+  const foldingName = foldingProvider?.name ?? "ESMFold";
+  const overFoldLimit = foldingProvider !== null && mutantLength > foldingProvider.maxLength;
+  const mutantLoading =
+    foldJob !== null && (foldJob.status === "queued" || foldJob.status === "running");
+  // Switching isoform can move the reference residue away from the variant
+  const referenceMismatch = protein
+    ? mutations.find((m) => protein.sequence[m.position - 1] !== m.original)
+    : undefined;
+
+  // The folding provider is set on the server and decides the length limit
+  useEffect(() => {
+    fetch("/api/esmfold")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((info: FoldingProviderInfo | null) => {
+        if (info) setFoldingProvider(info);
+      })
+      .catch(() => {});
+  }, []);
 
   // Fetch AI explanation once all data is ready
   useEffect(() => {
-    if (!mutation || !protein || !structure) return;
+    if (mutations.length === 0 || !protein || !structure) return;
 
-    const notation = `${mutation.original}${mutation.position}${mutation.mutant}`;
-    const ann = getAnnotations(mutation.gene, notation);
-    const domain = findDomain(protein.domains, mutation.position);
-    const plddt = getResiduePlddt(structure.pdbData, mutation.position);
+    const summaries = summarizeSites(mutations, protein, structure);
 
+    const controller = new AbortController();
+    explainController.current = controller;
     setExplainLoading(true);
     setExplanation("");
+    setStructuredExplanation(null);
+    setExplanationDraft(false);
+    setExplainInterrupted(null);
+    setExplainSource(null);
 
-    fetch("/api/explain", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        proteinName: protein.proteinName,
-        geneName: protein.geneName,
-        mutation: notation,
-        domain: domain ?? "No annotated domain",
-        plddt: plddt ?? structure.avgPlddt,
-        alphamissense: ann?.alphamissense ?? "Not available",
-        clinvar: ann?.clinvar ?? "Not available",
-      }),
-    })
-      .then((res) => res.json())
-      .then((data) => {
-        if (data.explanation) setExplanation(data.explanation);
-        else setExplanation("Could not generate explanation.");
+    // The explanation streams in as Server-Sent Events and is shown as it arrives
+    const stream = async () => {
+      const res = await fetch("/api/explain", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          proteinName: protein.proteinName,
+          geneName: protein.geneName,
+          organism: protein.taxonId === HUMAN_TAXON_ID ? undefined : protein.organism,
+          mutation: summaries.map((site) => site.notation).join(" + "),
+          ...explanationEvidence(summaries, structure),
+          ...explainMode,
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        setExplanation("Could not generate explanation.");
+        return;
+      }
+
+      let summary = "";
+      for await (const { event, data } of readSseEvents(res.body)) {
+        if (event === "meta") {
+          setExplainSource(JSON.parse(data));
+        } else if (event === "summary") {
+          // Shown as a draft until the validated `result` replaces it
+          summary = JSON.parse(data).text;
+          setExplanation(summary);
+          setExplanationDraft(true);
+        } else if (event === "result") {
+          const result: StructuredExplanation = JSON.parse(data);
+          setStructuredExplanation(result);
+          setExplanation(result.summary);
+          setExplanationDraft(false);
+        } else if (event === "error") {
+          setExplainInterrupted(JSON.parse(data).error);
+        }
+      }
+      if (!summary) {
+        setExplanation("Could not generate explanation.");
+        setExplanationDraft(false);
+      }
+    };
+
+    stream()
+      .catch(() => {
+        if (!controller.signal.aborted) setExplanation("Failed to connect to AI service.");
       })
-      .catch(() => setExplanation("Failed to connect to AI service."))
-      .finally(() => setExplainLoading(false));
-  }, [mutation, protein, structure]);
+      .finally(() => {
+        if (explainController.current !== controller) return;
+        explainController.current = null;
+        setExplainLoading(false);
+      });
+    return () => controller.abort();
+  }, [mutations, protein, structure, explainMode]);
+
+  /** Anchor and hover highlight for a Verdict row a claim can cite */
+  function evidenceRow(field: EvidenceField, siteIndex: number) {
+    return {
+      id: siteIndex === 0 ? `evidence-${field}` : undefined,
+      className:
+        hoveredEvidence === field ? "-m-1 rounded p-1 ring-1 ring-blue-500/70" : undefined,
+    };
+  }
+
+  function handleStopExplain() {
+    explainController.current?.abort();
+    explainController.current = null;
+    setExplainLoading(false);
+    setExplainInterrupted("Stopped before the explanation was complete.");
+  }
 
   async function doSearch(input: string) {
     setError("");
-    setMutation(null);
+    setMutations([]);
+    setEnteredMutations([]);
+    setNumbering(null);
+    setCdna(null);
     setProtein(null);
+    setCandidates([]);
     setStructure(null);
+    setFocusResidue(null);
+    setPdbEntries(null);
+    setExperimental(null);
+    setExperimentalError("");
     setExplanation("");
+    setStructuredExplanation(null);
+    setExplanationDraft(false);
+    setExplainInterrupted(null);
     setMutantStructure(null);
     setMutantError("");
+    stopFollowingFold();
+    setFoldJob(null);
 
     if (!input.trim()) {
       setError("Please enter a mutation.");
       return;
     }
 
-    const parsed = parseMutation(input);
-    if (!parsed) {
-      setError(
-        'Invalid format. Expected something like "TP53 R175H" (gene name + amino acid change).'
-      );
-      return;
-    }
-
-    setMutation(parsed);
     setLoading(true);
 
     try {
-      const lookupRes = await fetch(
-        `/api/lookup?gene=${encodeURIComponent(parsed.gene)}`
-      );
-      const lookupData = await lookupRes.json();
+      // Coding-DNA input is translated against the local CDS first
+      let proteinInput = input;
+      let cdnaInfo: CdnaInfo | null = null;
+      if (isCdnaNotation(input)) {
+        const cdnaRes = await fetch(
+          `/api/cdna?variant=${encodeURIComponent(input.trim())}`
+        );
+        const cdnaData = await cdnaRes.json();
 
-      if (!lookupRes.ok) {
-        setError(lookupData.error || "Failed to look up gene.");
+        if (!cdnaRes.ok) {
+          setError(cdnaData.error || "Failed to translate cDNA variant.");
+          setLoading(false);
+          return;
+        }
+
+        proteinInput = `${cdnaData.gene}:${cdnaData.proteinChange}`;
+        cdnaInfo = {
+          transcript: cdnaData.transcript,
+          cdnaChange: cdnaData.cdnaChange,
+          refCodon: cdnaData.refCodon,
+          altCodon: cdnaData.altCodon,
+        };
+      }
+
+      const result = parseMutations(proteinInput);
+      if (!result.ok) {
+        setError(
+          `${result.error} Expected something like "TP53 R175H", "TP53:p.Arg175His", "EGFR L858R+T790M" or "TP53 c.524G>A".`
+        );
         setLoading(false);
         return;
       }
+      const parsedMutations = cdnaInfo
+        ? result.mutations.map((m) => ({ ...m, transcript: cdnaInfo.transcript }))
+        : result.mutations;
+      const parsed = parsedMutations[0];
 
-      setProtein(lookupData);
+      setMutations(parsedMutations);
+      setEnteredMutations(parsedMutations);
+      setCdna(cdnaInfo);
 
-      const structRes = await fetch(
-        `/api/structure?uniprotId=${encodeURIComponent(lookupData.uniprotId)}`
+      // Sent as `gene` even when it looks like an accession: the server tries
+      // it as an accession first and falls back to the symbol (P2RY12, H2BC12)
+      await loadProtein(
+        `/api/lookup?gene=${encodeURIComponent(parsed.gene)}` +
+          `&organism=${taxonId}` +
+          (includeUnreviewed ? "&unreviewed=true" : ""),
+        parsedMutations
       );
-      const structData = await structRes.json();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "An unexpected error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
 
-      if (!structRes.ok) {
-        setError(structData.error || "Failed to fetch structure.");
-        setLoading(false);
-        return;
+  /**
+   * Look up the protein, carry the entered changes over to its numbering,
+   * then fetch the structure for the chosen isoform
+   */
+  async function loadProtein(lookupUrl: string, entered: ParsedMutation[]) {
+    const lookupRes = await fetch(lookupUrl);
+    const lookupData = await lookupRes.json();
+
+    if (!lookupRes.ok) {
+      // An ambiguous or unknown symbol offers a "did you mean" chooser
+      if (lookupData.candidates?.length > 0) {
+        setCandidates(lookupData.candidates);
+      } else {
+        setError(lookupData.error || "Failed to look up gene.");
       }
+      return;
+    }
 
-      setStructure(structData);
+    setProtein(lookupData);
+    setCandidates([]);
+
+    // Everything downstream (highlighting, pLDDT, explanation, folding) uses UniProt numbering
+    let reconciled = entered;
+    const numberingRes = await fetch("/api/numbering", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sequence: lookupData.sequence,
+        gene: entered[0].gene,
+        transcript: entered[0].transcript,
+        changes: entered,
+      }),
+    });
+    if (numberingRes.ok) {
+      const numberingData: NumberingResult<ParsedMutation> = await numberingRes.json();
+      reconciled = numberingData.changes;
+      setNumbering(numberingData);
+    }
+    setMutations(reconciled);
+
+    const structRes = await fetch(
+      structureUrl(lookupData, reconciled.map((m) => m.position))
+    );
+    const structData = await structRes.json();
+
+    if (!structRes.ok) {
+      setError(structData.error || "Failed to fetch structure.");
+      return;
+    }
+
+    setStructure(structData);
+  }
+
+  /** Reload the protein for a chosen accession, candidate or isoform */
+  async function selectAccession(accession: string) {
+    setError("");
+    setStructure(null);
+    setNumbering(null);
+    setFocusResidue(null);
+    setPdbEntries(null);
+    setExperimental(null);
+    setExperimentalError("");
+    setExplanation("");
+    setStructuredExplanation(null);
+    setExplanationDraft(false);
+    setExplainInterrupted(null);
+    setMutantStructure(null);
+    setMutantError("");
+    stopFollowingFold();
+    setFoldJob(null);
+    setLoading(true);
+
+    try {
+      await loadProtein(
+        `/api/lookup?accession=${encodeURIComponent(accession)}`,
+        enteredMutations
+      );
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "An unexpected error occurred."
@@ -237,9 +493,204 @@ export default function Home() {
     doSearch(query);
   }
 
+  async function handleBatchUpload(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBatchLoading(true);
+    setBatchError("");
+    setBatchRows(null);
+
+    try {
+      const res = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          filename: file.name,
+          content: await file.text(),
+          taxonId,
+          includeUnreviewed,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setBatchError(data.error || "Batch analysis failed.");
+        return;
+      }
+
+      setBatchRows(data.results);
+      setBatchSkipped(data.skipped ?? 0);
+    } catch (err) {
+      setBatchError(
+        err instanceof Error ? err.message : "Failed to upload variant file."
+      );
+    } finally {
+      setBatchLoading(false);
+    }
+  }
+
+  function handleBatchSelect(row: BatchResultRow) {
+    setQuery(row.input);
+    doSearch(row.input);
+  }
+
+  /** List experimental PDB chains covering every site */
+  async function handleListPdbEntries() {
+    if (!protein || mutations.length === 0) return;
+    setPdbEntriesLoading(true);
+    setExperimentalError("");
+
+    try {
+      const positions = mutations.map((m) => m.position).join(",");
+      const res = await fetch(
+        `/api/pdb-entries?uniprotId=${encodeURIComponent(protein.uniprotId)}` +
+          `&length=${protein.sequence.length}&positions=${positions}`
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        setExperimentalError(data.error || "Failed to list PDB entries.");
+        return;
+      }
+
+      setPdbEntries(data.entries);
+    } catch (err) {
+      setExperimentalError(
+        err instanceof Error ? err.message : "Failed to list PDB entries."
+      );
+    } finally {
+      setPdbEntriesLoading(false);
+    }
+  }
+
+  async function handleLoadPdbEntry(entry: PdbEntry) {
+    if (!protein) return;
+    setPdbEntriesLoading(true);
+    setExperimentalError("");
+
+    try {
+      const positions = mutations.map((m) => m.position).join(",");
+      const res = await fetch(
+        `/api/structure?uniprotId=${encodeURIComponent(protein.uniprotId)}` +
+          `&pdbId=${encodeURIComponent(entry.pdbId)}` +
+          `&chain=${encodeURIComponent(entry.chain)}&positions=${positions}`
+      );
+      const data = await res.json();
+
+      if (!res.ok) {
+        setExperimentalError(data.error || "Failed to load PDB entry.");
+        return;
+      }
+
+      setExperimental(data);
+      setFocusResidue(null);
+    } catch (err) {
+      setExperimentalError(
+        err instanceof Error ? err.message : "Failed to load PDB entry."
+      );
+    } finally {
+      setPdbEntriesLoading(false);
+    }
+  }
+
+  function stopFollowingFold() {
+    foldFollower.current?.();
+    foldFollower.current = null;
+  }
+
+  /** Take a finished job's models or error; returns whether the job has finished */
+  const applyFoldJob = useCallback((job: FoldJob): boolean => {
+    if (job.status === "done" && job.result) {
+      setMutantStructure({
+        pdbData: job.result.pdbData,
+        avgPlddt: job.result.avgPlddt,
+        wildType: job.result.wildType,
+        window: job.result.window,
+        note: job.result.note,
+        // Jobs stored before the provider was recorded all came from ESM Atlas
+        provider: job.result.provider ?? "ESMFold",
+      });
+      return true;
+    }
+    if (job.status === "failed") {
+      setMutantError(job.error || "Structure prediction failed.");
+      return true;
+    }
+    return job.status === "cancelled";
+  }, []);
+
+  /** Follow a fold job until it finishes: Server-Sent Events, or polling if those fail */
+  const followFoldJob = useCallback(
+    (job: FoldJob) => {
+      foldFollower.current?.();
+      foldFollower.current = null;
+      setFoldJob(job);
+      if (applyFoldJob(job)) return;
+
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const events = new EventSource(`/api/esmfold/jobs/${job.id}/events`);
+      const stop = () => {
+        stopped = true;
+        events.close();
+        if (timer) clearTimeout(timer);
+      };
+      const poll = async () => {
+        try {
+          const res = await fetch(`/api/esmfold/jobs/${job.id}`);
+          if (res.ok && !stopped) {
+            const latest: FoldJob = await res.json();
+            setFoldJob(latest);
+            if (applyFoldJob(latest)) return stop();
+          }
+        } catch {
+          // Try again on the next tick
+        }
+        if (!stopped) timer = setTimeout(poll, FOLD_POLL_MS);
+      };
+
+      events.addEventListener("status", (event) => {
+        const latest: FoldJob = JSON.parse((event as MessageEvent).data);
+        setFoldJob(latest);
+        if (applyFoldJob(latest)) stop();
+      });
+      events.onerror = () => {
+        events.close();
+        if (!stopped && !timer) timer = setTimeout(poll, FOLD_POLL_MS);
+      };
+      foldFollower.current = stop;
+    },
+    [applyFoldJob]
+  );
+
+  // A fold started before a reload is picked up again
+  useEffect(() => {
+    if (!protein || mutations.length === 0) return;
+    const key = foldJobKey(protein, mutationNotation);
+    const id = localStorage.getItem(key);
+    if (!id) return;
+
+    let cancelled = false;
+    fetch(`/api/esmfold/jobs/${id}`)
+      .then(async (res) => {
+        if (cancelled) return;
+        const job: FoldJob | null = res.ok ? await res.json() : null;
+        if (!job || job.status === "failed" || job.status === "cancelled") {
+          localStorage.removeItem(key);
+          return;
+        }
+        followFoldJob(job);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [protein, mutations, mutationNotation, followFoldJob]);
+
   async function handleEsmfold() {
-    if (!protein || !mutation) return;
-    setMutantLoading(true);
+    if (!protein || mutations.length === 0) return;
     setMutantError("");
 
     try {
@@ -248,25 +699,45 @@ export default function Home() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           sequence: protein.sequence,
-          position: mutation.position,
-          original: mutation.original,
-          mutant: mutation.mutant,
+          changes: mutations.map((m) => ({
+            type: m.type,
+            position: m.position,
+            end: m.end,
+            original: m.original,
+            endOriginal: m.endOriginal,
+            mutant: m.mutant,
+          })),
+          includeWildType: foldWildType,
+          // Proteins over the provider's limit are folded as a window around the sites
+          window: true,
+          domains: protein.domains,
         }),
       });
       const data = await res.json();
 
       if (!res.ok) {
-        setMutantError(data.error || "ESMFold prediction failed.");
+        setMutantError(data.error || "Structure prediction failed.");
         return;
       }
 
-      setMutantStructure({ pdbData: data.pdbData, avgPlddt: data.avgPlddt });
+      localStorage.setItem(foldJobKey(protein, mutationNotation), data.id);
+      followFoldJob(data);
     } catch (err) {
       setMutantError(
-        err instanceof Error ? err.message : "Failed to connect to ESMFold."
+        err instanceof Error ? err.message : "Failed to start the structure prediction."
       );
-    } finally {
-      setMutantLoading(false);
+    }
+  }
+
+  async function handleCancelFold() {
+    if (!foldJob || !protein) return;
+    stopFollowingFold();
+    setFoldJob(null);
+    localStorage.removeItem(foldJobKey(protein, mutationNotation));
+    try {
+      await fetch(`/api/esmfold/jobs/${foldJob.id}`, { method: "DELETE" });
+    } catch {
+      // The job finishes on its own; its result is simply not shown
     }
   }
 
@@ -287,7 +758,7 @@ export default function Home() {
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Enter mutation (e.g. TP53 R175H)"
+              placeholder="Enter mutation (e.g. TP53 R175H, TP53:p.Arg175His or TP53 c.524G>A)"
               className="flex-1 rounded-lg border border-zinc-700 bg-zinc-900 px-4 py-3 text-white placeholder-zinc-500 outline-none transition-colors focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
               disabled={loading}
             />
@@ -299,15 +770,59 @@ export default function Home() {
               {loading ? "Loading..." : "Search"}
             </button>
           </div>
+          <div className="mt-3 flex items-center justify-center gap-4 text-sm text-zinc-400">
+            <select
+              value={taxonId}
+              onChange={(e) => setTaxonId(Number(e.target.value))}
+              disabled={loading}
+              className="rounded border border-zinc-700 bg-zinc-900 px-2 py-1 text-zinc-300 outline-none focus:border-blue-500"
+            >
+              {ORGANISMS.map((o) => (
+                <option key={o.taxonId} value={o.taxonId}>
+                  {o.commonName} ({o.name})
+                </option>
+              ))}
+            </select>
+            <label className="flex cursor-pointer items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeUnreviewed}
+                onChange={(e) => setIncludeUnreviewed(e.target.checked)}
+                disabled={loading}
+                className="accent-blue-500"
+              />
+              Include unreviewed (TrEMBL)
+            </label>
+          </div>
+          <div className="mt-3 text-sm text-zinc-500">
+            or{" "}
+            <label className="cursor-pointer text-blue-400 hover:text-blue-300">
+              {batchLoading ? "analysing variants..." : "upload a CSV or annotated VCF"}
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,.vcf"
+                onChange={handleBatchUpload}
+                disabled={batchLoading}
+                className="hidden"
+              />
+            </label>{" "}
+            for batch analysis
+          </div>
         </form>
 
+        {batchError && (
+          <div className="mx-auto mt-6 max-w-lg rounded-lg border border-red-800 bg-red-950/50 px-4 py-3 text-left text-red-300">
+            {batchError}
+          </div>
+        )}
+
         {error && (
           <div className="mx-auto mt-6 max-w-lg rounded-lg border border-red-800 bg-red-950/50 px-4 py-3 text-left text-red-300">
             {error}
           </div>
         )}
 
-        {!mutation && !loading && (
+        {!mutation && !loading && !batchRows && (
           <div className="mx-auto mt-8 max-w-lg">
             <p className="mb-3 text-sm text-zinc-500">Try an example:</p>
             <div className="flex flex-wrap justify-center gap-2">
@@ -317,6 +832,7 @@ export default function Home() {
                 { label: "BRCA1 C61G", desc: "Breast cancer" },
                 { label: "EGFR L858R", desc: "Lung cancer" },
                 { label: "BRAF V600E", desc: "Melanoma" },
+                { label: "EGFR L858R+T790M", desc: "TKI resistance" },
               ].map((ex) => (
                 <button
                   key={ex.label}
@@ -331,6 +847,18 @@ export default function Home() {
         )}
       </div>
 
+      {/* Batch results table */}
+      {batchRows && (
+        <div className="mx-auto mt-10 max-w-7xl">
+          <BatchResults
+            rows={batchRows}
+            skipped={batchSkipped}
+            selectedInput={mutation ? query : null}
+            onSelect={handleBatchSelect}
+          />
+        </div>
+      )}
+
       {/* Results */}
       {mutation && (
         <div className={`mx-auto mt-10 space-y-6 ${mutantStructure ? "max-w-[1400px]" : "max-w-7xl"}`}>
@@ -340,7 +868,7 @@ export default function Home() {
               <div>
                 <span className="text-zinc-400">Gene </span>
                 <span className="font-mono text-lg font-semibold text-emerald-400">
-                  {mutation.gene}
+                  {protein?.geneName || mutation.gene}
                 </span>
               </div>
               <div>
@@ -349,10 +877,54 @@ export default function Home() {
                   {mutationNotation}
                 </span>
               </div>
+              {protein && (
+                <div>
+                  <span className="text-zinc-400">Organism </span>
+                  <span className="italic text-zinc-300">{protein.organism}</span>
+                  {!protein.reviewed && (
+                    <span className="ml-2 rounded bg-amber-950/60 px-1.5 py-0.5 text-xs text-amber-400">
+                      TrEMBL &middot; unreviewed
+                    </span>
+                  )}
+                </div>
+              )}
+              {renumbered && (
+                <div>
+                  <span className="text-zinc-400">Entered as </span>
+                  <span className="font-mono text-zinc-300">
+                    {enteredMutations.map(formatMutation).join(" + ")}
+                  </span>
+                  <span className="ml-2 rounded bg-sky-950/60 px-1.5 py-0.5 text-xs text-sky-400">
+                    {numbering?.sites.some((site) => site.method === "nearby")
+                      ? "renumbered by nearest match"
+                      : "renumbered by alignment"}
+                  </span>
+                </div>
+              )}
+              {mutation.transcript && (
+                <div>
+                  <span className="text-zinc-400">Transcript </span>
+                  <span className="font-mono text-zinc-300">
+                    {mutation.transcript}
+                  </span>
+                </div>
+              )}
+              {cdna && (
+                <div>
+                  <span className="text-zinc-400">cDNA </span>
+                  <span className="font-mono text-zinc-300">
+                    {cdna.cdnaChange}
+                  </span>
+                  <span className="ml-2 font-mono text-xs text-zinc-500">
+                    {cdna.refCodon} &rarr; {cdna.altCodon}
+                  </span>
+                </div>
+              )}
               <div>
                 <span className="text-zinc-400">
-                  {AMINO_ACIDS[mutation.original] ?? mutation.original} &rarr;{" "}
-                  {AMINO_ACIDS[mutation.mutant] ?? mutation.mutant}
+                  {mutations.length > 1
+                    ? `${mutations.length} changes on one protein`
+                    : describeChange(mutation)}
                 </span>
               </div>
               {protein && (
@@ -366,9 +938,46 @@ export default function Home() {
                   >
                     {protein.uniprotId}
                   </a>
+                  {protein.isoforms.length > 1 && (
+                    <select
+                      value={protein.isoformId ?? ""}
+                      onChange={(e) => selectAccession(e.target.value)}
+                      disabled={loading}
+                      className="ml-3 rounded border border-zinc-700 bg-zinc-800 px-2 py-1 font-mono text-xs text-zinc-300 outline-none focus:border-blue-500"
+                    >
+                      {protein.isoforms.map((iso) => (
+                        <option key={iso.id} value={iso.id}>
+                          {iso.id} &middot; {iso.name}
+                          {iso.canonical ? " (canonical)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
               )}
             </div>
+            {numbering?.reference && (renumbered || referenceMismatch) && (
+              <p className="mt-3 text-xs text-zinc-500">
+                {describeReference(numbering.reference)}
+              </p>
+            )}
+            {(protein?.note || structure?.note || referenceMismatch || numbering?.sites.some((site) => site.note)) && (
+              <div className="mt-3 space-y-1 text-xs text-amber-400">
+                {numbering?.sites.map(
+                  (site, i) => site.note && <p key={i}>{site.note}</p>
+                )}
+                {referenceMismatch && protein && !numbering && (
+                  <p>
+                    {protein.isoformId ?? protein.uniprotId} has{" "}
+                    {protein.sequence[referenceMismatch.position - 1] ?? "no residue"} at
+                    position {referenceMismatch.position}, not {referenceMismatch.original}.
+                    The variant may be numbered on a different isoform.
+                  </p>
+                )}
+                {protein?.note && <p>{protein.note}</p>}
+                {structure?.note && <p>{structure.note}</p>}
+              </div>
+            )}
           </div>
 
           {/* Loading indicator */}
@@ -386,6 +995,46 @@ export default function Home() {
             </div>
           )}
 
+          {/* "Did you mean" chooser for ambiguous gene symbols */}
+          {!loading && !protein && candidates.length > 0 && (
+            <div className="rounded-lg border border-zinc-700 bg-zinc-900 p-5">
+              <h2 className="mb-1 text-lg font-semibold text-white">
+                Did you mean&hellip;
+              </h2>
+              <p className="mb-4 text-sm text-zinc-400">
+                <span className="font-mono">{mutation.gene}</span> does not
+                identify a single protein. Choose the one you meant:
+              </p>
+              <div className="space-y-2">
+                {candidates.map((c) => (
+                  <button
+                    key={c.uniprotId}
+                    onClick={() => selectAccession(c.uniprotId)}
+                    className="flex w-full items-center gap-4 rounded border border-zinc-700 bg-zinc-800 px-4 py-2 text-left text-sm transition-colors hover:border-zinc-500"
+                  >
+                    <span className="w-24 font-mono font-semibold text-emerald-400">
+                      {c.geneName || c.uniprotId}
+                    </span>
+                    <span className="flex-1 text-zinc-300">
+                      {c.proteinName}
+                      {!c.reviewed && (
+                        <span className="ml-2 text-xs text-amber-400">TrEMBL</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-zinc-500">
+                      {c.match === "primary"
+                        ? "gene symbol"
+                        : c.match === "synonym"
+                          ? `alias ${c.matchedName}`
+                          : `partial: ${c.matchedName}`}
+                    </span>
+                    <span className="font-mono text-xs text-zinc-500">{c.uniprotId}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* 3D Viewer + Verdict Panel side by side */}
           {structure && (
             <div className="grid gap-6 lg:grid-cols-[1fr_340px]">
@@ -396,50 +1045,215 @@ export default function Home() {
                     <h2 className="text-lg font-semibold text-white">
                       3D Structure
                       <span className="ml-2 text-sm font-normal text-zinc-400">
-                        AlphaFold &middot; avg pLDDT {structure.avgPlddt}
+                        {experimental ? (
+                          <>
+                            PDB {experimental.pdbId} chain {experimental.chain}
+                            {experimental.method && <> &middot; {experimental.method.toLowerCase()}</>}
+                            {experimental.resolution !== null && <> &middot; {experimental.resolution} &Aring;</>}
+                          </>
+                        ) : (
+                          <>
+                            AlphaFold
+                            {structure.fragment && (
+                              <>
+                                {" "}fragment F{structure.fragment.index} of {structure.fragment.count}
+                                {" "}(residues {structure.fragment.start}&ndash;{structure.fragment.end})
+                              </>
+                            )}
+                            {" "}&middot; avg pLDDT {structure.avgPlddt}
+                          </>
+                        )}
                       </span>
                     </h2>
                     <a
-                      href={structure.modelUrl}
+                      href={experimental ? experimental.entryUrl : structure.modelUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-xs text-blue-400 hover:text-blue-300"
                     >
-                      View on AlphaFold &rarr;
+                      {experimental ? "View on RCSB PDB" : "View on AlphaFold"} &rarr;
                     </a>
                   </div>
+
+                  {/* Model source: AlphaFold or an experimental PDB chain */}
+                  {protein && !nonCanonicalIsoform(protein) && (
+                    <div className="mb-3 space-y-2 text-xs">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => { setExperimental(null); setPdbEntries(null); }}
+                          className={`rounded px-2.5 py-1 ${
+                            experimental
+                              ? "border border-zinc-700 text-zinc-400 hover:text-white"
+                              : "bg-zinc-700 text-white"
+                          }`}
+                        >
+                          AlphaFold model
+                        </button>
+                        <button
+                          onClick={handleListPdbEntries}
+                          disabled={pdbEntriesLoading}
+                          className={`rounded px-2.5 py-1 disabled:opacity-50 ${
+                            experimental
+                              ? "bg-zinc-700 text-white"
+                              : "border border-zinc-700 text-zinc-400 hover:text-white"
+                          }`}
+                        >
+                          {pdbEntriesLoading ? "Loading..." : "Experimental structures"}
+                        </button>
+                        {experimental && (
+                          <span className="text-zinc-500">
+                            {experimental.sites
+                              .map((site) =>
+                                site.author
+                                  ? `UniProt ${site.position} = author ${experimental.chain}/${site.author}`
+                                  : `UniProt ${site.position} not modelled`
+                              )
+                              .join(" · ")}
+                          </span>
+                        )}
+                      </div>
+                      {experimentalError && (
+                        <p className="text-red-400">{experimentalError}</p>
+                      )}
+                      {pdbEntries && !experimental && (
+                        pdbEntries.length === 0 ? (
+                          <p className="text-zinc-500">
+                            No experimental structure in the SIFTS mapping covers{" "}
+                            {mutations.length > 1 ? "every site" : "this site"}.
+                          </p>
+                        ) : (
+                          <div className="max-h-48 overflow-y-auto rounded border border-zinc-800">
+                            <table className="w-full text-left">
+                              <thead className="sticky top-0 bg-zinc-900 text-zinc-500">
+                                <tr>
+                                  <th className="px-2 py-1 font-medium">Entry</th>
+                                  <th className="px-2 py-1 font-medium">Method</th>
+                                  <th className="px-2 py-1 font-medium">Resolution</th>
+                                  <th className="px-2 py-1 font-medium">Coverage</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {pdbEntries.map((entry) => (
+                                  <tr
+                                    key={`${entry.pdbId}:${entry.chain}`}
+                                    onClick={() => handleLoadPdbEntry(entry)}
+                                    className="cursor-pointer border-t border-zinc-800 text-zinc-300 hover:bg-zinc-800"
+                                  >
+                                    <td className="px-2 py-1 font-mono">
+                                      {entry.pdbId} {entry.chain}
+                                    </td>
+                                    <td className="px-2 py-1">{entry.method?.toLowerCase() ?? "—"}</td>
+                                    <td className="px-2 py-1 font-mono">
+                                      {entry.resolution !== null ? `${entry.resolution} Å` : "—"}
+                                    </td>
+                                    <td className="px-2 py-1 font-mono">
+                                      {Math.round(entry.coverage * 100)}%{" "}
+                                      <span className="text-zinc-500">
+                                        ({entry.ranges.map(([a, b]) => `${a}–${b}`).join(", ")})
+                                      </span>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
+
                   <StructureViewer
-                    pdbData={structure.pdbData}
-                    mutationPosition={mutation.position}
-                    mutationOriginal={mutation.original}
-                    mutationMutant={mutation.mutant}
+                    pdbData={experimental?.pdbData ?? structure.pdbData}
+                    colorScheme={experimental ? "spectrum" : "plddt"}
+                    modelLabel={
+                      experimental
+                        ? `PDB ${experimental.pdbId} ${experimental.chain}`
+                        : structure.fragment
+                          ? `AlphaFold F${structure.fragment.index}`
+                          : "AlphaFold"
+                    }
+                    mutations={mutations}
                     mutantPdbData={mutantStructure?.pdbData ?? null}
+                    esmWildPdbData={mutantStructure?.wildType?.pdbData ?? null}
+                    foldedRange={mutantStructure?.window ?? null}
+                    domains={protein?.domains ?? []}
+                    focusResidue={focusResidue}
+                    onResiduePick={setFocusResidue}
+                    predictorLabel={mutantStructure?.provider}
                   />
                 </div>
 
-                {/* ESMFold prediction button */}
-                {structure && protein && mutation && !mutantStructure && (
+                {/* Sequence track linked to the viewer */}
+                {protein && (
+                  <div className="mt-4">
+                    <SequenceTrack
+                      sequence={protein.sequence}
+                      pdbData={structure.pdbData}
+                      domains={protein.domains}
+                      features={protein.features}
+                      mutations={mutations}
+                      focusResidue={focusResidue}
+                      onFocus={setFocusResidue}
+                    />
+                  </div>
+                )}
+
+                {/* PAE heatmap: is the mutated domain placed confidently? */}
+                {structure.pae && (
                   <div className="mt-4">
-                    {protein.sequence.length > 400 ? (
-                      <p className="text-sm text-zinc-500">
-                        Protein is {protein.sequence.length} residues (ESMFold limit: 400). Mutant prediction not available.
-                      </p>
-                    ) : mutantLoading ? (
+                    <PaeHeatmap
+                      pae={structure.pae}
+                      mutations={mutations}
+                      domains={protein?.domains ?? []}
+                    />
+                  </div>
+                )}
+
+                {/* Mutant structure prediction button */}
+                {structure && protein && mutation && !mutantStructure && !noProteinChange && (
+                  <div className="mt-4">
+                    {mutantLoading ? (
                       <div className="flex items-center gap-3 rounded-lg border border-zinc-700 bg-zinc-900 px-4 py-3 text-sm text-zinc-400">
                         <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" fill="none">
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                         </svg>
-                        Folding mutant sequence with ESMFold... this may take 30–60 seconds
+                        <span className="flex-1">
+                          {foldJob?.status === "queued"
+                            ? `Queued for ${foldingName}...`
+                            : `${foldJob?.stage ?? "Folding"} with ${foldingName}... this may take 30–60 seconds`}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={handleCancelFold}
+                          className="rounded px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-white"
+                        >
+                          Cancel
+                        </button>
                       </div>
                     ) : (
-                      <button
-                        onClick={handleEsmfold}
-                        className="rounded-lg border border-orange-700 bg-orange-950/30 px-4 py-2.5 text-sm font-medium text-orange-300 transition-colors hover:bg-orange-950/50"
-                      >
-                        Predict mutant structure with ESMFold
-                        <span className="ml-2 text-xs text-orange-500">({protein.sequence.length} residues)</span>
-                      </button>
+                      <div className="flex flex-wrap items-center gap-4">
+                        <button
+                          onClick={handleEsmfold}
+                          className="rounded-lg border border-orange-700 bg-orange-950/30 px-4 py-2.5 text-sm font-medium text-orange-300 transition-colors hover:bg-orange-950/50"
+                        >
+                          {overFoldLimit
+                            ? `Predict a window around the mutation with ${foldingName}`
+                            : `Predict mutant structure with ${foldingName}`}
+                          <span className="ml-2 text-xs text-orange-500">
+                            ({overFoldLimit ? `${mutantLength} residues, limit ${foldingProvider.maxLength}` : `${mutantLength} residues`})
+                          </span>
+                        </button>
+                        <label className="flex items-center gap-2 text-xs text-zinc-400">
+                          <input
+                            type="checkbox"
+                            checked={foldWildType}
+                            onChange={(e) => setFoldWildType(e.target.checked)}
+                            className="accent-orange-500"
+                          />
+                          Also fold the wild type, to compare {foldingName} with {foldingName}
+                        </label>
+                      </div>
                     )}
                     {mutantError && (
                       <p className="mt-2 text-sm text-red-400">{mutantError}</p>
@@ -447,11 +1261,19 @@ export default function Home() {
                   </div>
                 )}
 
-                {/* ESMFold disclaimer when mutant is loaded */}
+                {/* Prediction disclaimer when mutant is loaded */}
                 {mutantStructure && (
                   <p className="mt-2 text-xs text-zinc-500">
-                    Predicted by ESMFold &middot; Colored by backbone deviation from wild-type &middot; This is a computational prediction
+                    Predicted by {mutantStructure.provider} &middot; Colored by backbone deviation from wild-type &middot; This is a computational prediction
                     <span className="ml-2 text-zinc-600">avg pLDDT {mutantStructure.avgPlddt}</span>
+                    {mutantStructure.wildType && (
+                      <span className="ml-2 text-zinc-600">
+                        ({mutantStructure.provider} wild type {mutantStructure.wildType.avgPlddt})
+                      </span>
+                    )}
+                    {mutantStructure.note && (
+                      <span className="mt-1 block text-amber-400">{mutantStructure.note}</span>
+                    )}
                   </p>
                 )}
               </div>
@@ -463,6 +1285,12 @@ export default function Home() {
                   <h2 className="mb-4 text-lg font-semibold text-white">
                     Verdict
                   </h2>
+                  {noProteinChange && (
+                    <div className="mb-4 rounded border border-emerald-800 bg-emerald-950/40 px-3 py-2 text-sm text-emerald-300">
+                      No protein change &mdash; this synonymous variant leaves
+                      the encoded protein identical to wild-type.
+                    </div>
+                  )}
                   <dl className="space-y-4 text-sm">
                     {/* Protein */}
                     <div>
@@ -474,86 +1302,150 @@ export default function Home() {
                       </dd>
                     </div>
 
-                    {/* Domain */}
-                    <div>
-                      <dt className="text-zinc-500 text-xs uppercase tracking-wider">
-                        Domain
-                      </dt>
-                      <dd className="mt-1">
-                        {domainName ? (
-                          <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
-                            {domainName}
-                          </span>
-                        ) : (
-                          <span className="text-zinc-400">
-                            No annotated domain
-                          </span>
-                        )}
-                      </dd>
-                    </div>
-
-                    {/* pLDDT at site */}
-                    <div>
-                      <dt className="text-zinc-500 text-xs uppercase tracking-wider">
-                        pLDDT at position {mutation.position}
-                      </dt>
-                      <dd className="mt-1">
-                        {residuePlddt !== null ? (
-                          <span className="flex items-center gap-2">
-                            <span className="font-mono text-lg font-semibold text-white">
-                              {residuePlddt}
-                            </span>
-                            <span className="text-xs text-zinc-400">
-                              {residuePlddt >= 90
-                                ? "Very high confidence"
-                                : residuePlddt >= 70
-                                  ? "Confident"
-                                  : residuePlddt >= 50
-                                    ? "Low confidence"
-                                    : "Very low confidence"}
+                    {/* One row per site: domain, pLDDT, AlphaMissense, ClinVar */}
+                    {sites.map((site, index) => (
+                      <div
+                        key={index}
+                        className={
+                          sites.length > 1
+                            ? "space-y-4 border-t border-zinc-800 pt-4"
+                            : "space-y-4"
+                        }
+                      >
+                        {sites.length > 1 && (
+                          <div className="flex items-center gap-2">
+                            <span
+                              className="h-3 w-3 rounded-full"
+                              style={{
+                                backgroundColor:
+                                  SITE_COLORS[index % SITE_COLORS.length],
+                              }}
+                            />
+                            <span className="font-mono font-semibold text-white">
+                              {site.notation}
                             </span>
-                          </span>
-                        ) : (
-                          <span className="text-zinc-400">N/A</span>
+                          </div>
                         )}
-                      </dd>
-                    </div>
 
-                    {/* AlphaMissense */}
-                    <div>
-                      <dt className="text-zinc-500 text-xs uppercase tracking-wider">
-                        AlphaMissense
-                      </dt>
-                      <dd className="mt-1">
-                        {annotations ? (
-                          <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
-                            {annotations.alphamissense}
-                          </span>
-                        ) : (
-                          <span className="text-zinc-500 italic">
-                            No data available
-                          </span>
-                        )}
-                      </dd>
-                    </div>
+                        {/* Domain */}
+                        <div {...evidenceRow("domain", index)}>
+                          <dt className="text-zinc-500 text-xs uppercase tracking-wider">
+                            Domain
+                          </dt>
+                          <dd className="mt-1">
+                            {site.domain ? (
+                              <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
+                                {site.domain}
+                              </span>
+                            ) : (
+                              <span className="text-zinc-400">
+                                No annotated domain
+                              </span>
+                            )}
+                          </dd>
+                        </div>
 
-                    {/* ClinVar */}
-                    <div>
-                      <dt className="text-zinc-500 text-xs uppercase tracking-wider">
-                        ClinVar
-                      </dt>
-                      <dd className="mt-1">
-                        {annotations ? (
-                          <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
-                            {annotations.clinvar}
-                          </span>
-                        ) : (
-                          <span className="text-zinc-500 italic">
-                            No data available
-                          </span>
-                        )}
-                      </dd>
-                    </div>
+                        {/* UniProt features at or next to the site */}
+                        <div {...evidenceRow("features", index)}>
+                          <dt className="text-zinc-500 text-xs uppercase tracking-wider">
+                            UniProt features
+                          </dt>
+                          <dd className="mt-1">
+                            {site.features.length > 0 ? (
+                              <ul className="space-y-1">
+                                {site.features.map((hit, i) => (
+                                  <li key={i} className="flex items-start gap-2">
+                                    <span
+                                      className={`mt-0.5 shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium ${
+                                        hit.distance === 0
+                                          ? "border border-orange-800 bg-orange-950/50 text-orange-300"
+                                          : "border border-zinc-700 bg-zinc-800 text-zinc-400"
+                                      }`}
+                                    >
+                                      {isSameVariant(hit, site.mutation)
+                                        ? "same variant"
+                                        : hit.distance === 0
+                                          ? "at site"
+                                          : `±${hit.distance}`}
+                                    </span>
+                                    <span className="text-zinc-300">
+                                      {describeFeature(hit.feature)}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <span className="text-zinc-400">
+                                None within {FEATURE_WINDOW} residues
+                              </span>
+                            )}
+                          </dd>
+                        </div>
+
+                        {/* pLDDT at site */}
+                        <div {...evidenceRow("plddt", index)}>
+                          <dt className="text-zinc-500 text-xs uppercase tracking-wider">
+                            pLDDT at position {site.mutation.position}
+                          </dt>
+                          <dd className="mt-1">
+                            {site.plddt !== null ? (
+                              <span className="flex items-center gap-2">
+                                <span className="font-mono text-lg font-semibold text-white">
+                                  {site.plddt}
+                                </span>
+                                <span className="text-xs text-zinc-400">
+                                  {site.plddt >= 90
+                                    ? "Very high confidence"
+                                    : site.plddt >= 70
+                                      ? "Confident"
+                                      : site.plddt >= 50
+                                        ? "Low confidence"
+                                        : "Very low confidence"}
+                                </span>
+                              </span>
+                            ) : (
+                              <span className="text-zinc-400">N/A</span>
+                            )}
+                          </dd>
+                        </div>
+
+                        {/* AlphaMissense */}
+                        <div {...evidenceRow("alphamissense", index)}>
+                          <dt className="text-zinc-500 text-xs uppercase tracking-wider">
+                            AlphaMissense
+                          </dt>
+                          <dd className="mt-1">
+                            {site.annotations ? (
+                              <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
+                                {site.annotations.alphamissense}
+                              </span>
+                            ) : (
+                              <span className="text-zinc-500 italic">
+                                No data available
+                              </span>
+                            )}
+                          </dd>
+                        </div>
+
+                        {/* ClinVar */}
+                        <div {...evidenceRow("clinvar", index)}>
+                          <dt className="text-zinc-500 text-xs uppercase tracking-wider">
+                            ClinVar
+                          </dt>
+                          <dd className="mt-1">
+                            {site.annotations ? (
+                              <span className="rounded bg-red-950/50 border border-red-800 px-2 py-0.5 text-red-300">
+                                {site.annotations.clinvar}
+                              </span>
+                            ) : (
+                              <span className="text-zinc-500 italic">
+                                No data available
+                              </span>
+                            )}
+                          </dd>
+                        </div>
+                      </div>
+                    ))}
                   </dl>
                 </div>
 
@@ -566,8 +1458,68 @@ export default function Home() {
                     <h2 className="text-sm font-semibold text-white">
                       Clinical Interpretation
                     </h2>
+                    {explainSource && (
+                      <span
+                        title="How the supplied classifications were read; the explanation is framed by this, not by an assumed outcome"
+                        className="rounded border border-zinc-700 bg-zinc-800 px-1.5 py-0.5 text-[10px] text-zinc-400"
+                      >
+                        {EVIDENCE_FRAME_LABELS[explainSource.frame]}
+                      </span>
+                    )}
+                    {explainLoading && (
+                      <button
+                        type="button"
+                        onClick={handleStopExplain}
+                        className="ml-auto rounded px-2 py-1 text-xs text-zinc-400 hover:bg-zinc-800 hover:text-white"
+                      >
+                        Stop
+                      </button>
+                    )}
                   </div>
-                  {explainLoading ? (
+                  {/* Changing the mode regenerates the explanation */}
+                  <div className="mb-3 flex flex-wrap gap-2">
+                    <select
+                      value={explainMode.audience}
+                      onChange={(e) =>
+                        setExplainMode({ ...explainMode, audience: e.target.value as ExplanationMode["audience"] })
+                      }
+                      aria-label="Audience"
+                      className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-300 outline-none focus:border-blue-500"
+                    >
+                      {Object.entries(AUDIENCES).map(([id, audience]) => (
+                        <option key={id} value={id}>
+                          {audience.label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={explainMode.language}
+                      onChange={(e) => setExplainMode({ ...explainMode, language: e.target.value })}
+                      aria-label="Language"
+                      className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-300 outline-none focus:border-blue-500"
+                    >
+                      {Object.entries(LANGUAGES).map(([code, name]) => (
+                        <option key={code} value={code}>
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={explainMode.detail}
+                      onChange={(e) =>
+                        setExplainMode({ ...explainMode, detail: e.target.value as ExplanationMode["detail"] })
+                      }
+                      aria-label="Detail"
+                      className="rounded border border-zinc-700 bg-zinc-800 px-2 py-1 text-xs text-zinc-300 outline-none focus:border-blue-500"
+                    >
+                      {Object.entries(DETAIL_LEVELS).map(([id, level]) => (
+                        <option key={id} value={id}>
+                          {level.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {explainLoading && !explanation ? (
                     <div className="flex items-center gap-2 text-sm text-zinc-400">
                       <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" fill="none">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
@@ -578,10 +1530,58 @@ export default function Home() {
                   ) : explanation ? (
                     <p className="text-sm leading-relaxed text-zinc-300">
                       {explanation}
+                      {explainLoading && (
+                        <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-zinc-500 align-middle" />
+                      )}
                     </p>
                   ) : null}
+                  {explanation && explanationDraft && (
+                    <p className="mt-2 text-xs text-amber-400/80">
+                      {explainLoading
+                        ? "Draft: the summary is checked against the evidence once the reply is complete."
+                        : "Not validated: the reply ended before it could be checked against the evidence."}
+                    </p>
+                  )}
+                  {/* Each claim links to the Verdict row it cites */}
+                  {structuredExplanation && structuredExplanation.claims.length > 0 && (
+                    <ul className="mt-3 list-disc space-y-1.5 pl-4 text-sm text-zinc-300">
+                      {structuredExplanation.claims.map((claim, i) => (
+                        <li key={i}>
+                          {claim.text}
+                          <a
+                            href={`#evidence-${claim.evidence}`}
+                            title={evidence ? `${EVIDENCE_LABELS[claim.evidence]}: ${evidence[claim.evidence]}` : undefined}
+                            onMouseEnter={() => setHoveredEvidence(claim.evidence)}
+                            onMouseLeave={() => setHoveredEvidence(null)}
+                            className="ml-1.5 whitespace-nowrap rounded border border-blue-800 bg-blue-950/40 px-1.5 py-0.5 text-[10px] text-blue-300 hover:bg-blue-950/70"
+                          >
+                            {EVIDENCE_LABELS[claim.evidence]}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {structuredExplanation && (
+                    <p className="mt-3 text-xs text-zinc-400">
+                      <span className="font-semibold text-zinc-300">Uncertainty: </span>
+                      {structuredExplanation.uncertainty || "Not stated."}
+                    </p>
+                  )}
+                  {structuredExplanation && structuredExplanation.rejectedClaims > 0 && (
+                    <p className="mt-2 text-xs text-zinc-500">
+                      {structuredExplanation.rejectedClaims} claim
+                      {structuredExplanation.rejectedClaims === 1 ? "" : "s"} not citing any of the available
+                      data above {structuredExplanation.rejectedClaims === 1 ? "was" : "were"} removed.
+                    </p>
+                  )}
+                  {explainInterrupted && (
+                    <p className="mt-2 text-xs text-zinc-500">{explainInterrupted}</p>
+                  )}
                   <p className="mt-3 text-[10px] text-zinc-600">
-                    Generated by Gemini &middot; Not a clinical diagnosis
+                    {explainSource
+                      ? `Generated by ${explainSource.provider} (${explainSource.model})`
+                      : "AI-generated"}{" "}
+                    &middot; Not a clinical diagnosis
                   </p>
                 </div>
               </div>
@@ -624,9 +1624,9 @@ export default function Home() {
                 {protein.domains.length > 0 ? (
                   <ul className="space-y-2 text-sm">
                     {protein.domains.map((d, i) => {
-                      const mutInDomain =
-                        mutation.position >= d.start &&
-                        mutation.position <= d.end;
+                      const mutInDomain = mutations.some(
+                        (m) => m.position <= d.end && m.end >= d.start
+                      );
                       return (
                         <li
                           key={i}
@@ -0,0 +1,295 @@
+import { parseMmcifAtoms } from "./mmcif";
+import {
+  atomsToPdb,
+  buildStructure,
+  meanBFactor,
+  parsePdbAtoms,
+  type Atom,
+} from "./structure";
+import { binPae, parsePaeJson, type PaeMatrix } from "./pae";
+
+interface AlphaFoldPrediction {
+  /** e.g. AF-Q8WZ42-F2; the suffix numbers fragments of long proteins */
+  entryId?: string;
+  /** Full-length residues the model covers */
+  uniprotStart?: number;
+  uniprotEnd?: number;
+  pdbUrl?: string;
+  paeImageUrl?: string;
+  paeDocUrl?: string;
+  cifUrl?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * AlphaFold DB splits proteins longer than this into overlapping
+ * fragments (F1, F2, ...), each modelled on its own.
+ */
+export const FRAGMENT_THRESHOLD = 2700;
+
+/** Which part of a fragmented protein a model covers */
+export interface ModelFragment {
+  /** Fragment number: 1 for F1 */
+  index: number;
+  /** Number of fragments the protein is split into */
+  count: number;
+  /** First and last full-length residue of the fragment */
+  start: number;
+  end: number;
+}
+
+export interface StructureData {
+  pdbUrl: string | null;
+  cifUrl: string | null;
+  /** PDB-format coordinates, converted from the mmCIF model when one is available */
+  pdbData: string;
+  /** Which AlphaFold file the coordinates were read from */
+  format: "mmcif" | "pdb";
+  /** Binned predicted aligned error, or null when AlphaFold has none */
+  pae: PaeMatrix | null;
+  avgPlddt: number;
+  modelUrl: string;
+  /** Accession or isoform ID the model was predicted for */
+  modelAccession: string;
+  /** Set when the protein is split into fragments; residues use full-length numbering */
+  fragment: ModelFragment | null;
+  note: string | null;
+}
+
+export type StructureResult =
+  | { ok: true; structure: StructureData }
+  | { ok: false; status: number; error: string };
+
+/** Fragment number from an entry ID such as AF-Q8WZ42-F2 */
+function fragmentIndex(prediction: AlphaFoldPrediction): number | null {
+  const match = prediction.entryId?.match(/-F(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Pick the prediction covering the most positions, preferring the one
+ * where they sit furthest from a fragment edge (fragments overlap, and
+ * residues near an edge lack their neighbours' context).
+ */
+function chooseFragment(
+  predictions: AlphaFoldPrediction[],
+  positions: number[]
+): AlphaFoldPrediction {
+  if (predictions.length === 1 || positions.length === 0) return predictions[0];
+
+  const scored = predictions.map((p) => {
+    const start = p.uniprotStart ?? 1;
+    const end = p.uniprotEnd ?? Infinity;
+    const inside = positions.filter((pos) => pos >= start && pos <= end);
+    const margin = inside.length > 0
+      ? Math.min(...inside.map((pos) => Math.min(pos - start, end - pos)))
+      : -1;
+    return { prediction: p, covered: inside.length, margin };
+  });
+  scored.sort((a, b) => b.covered - a.covered || b.margin - a.margin);
+  return scored[0].prediction;
+}
+
+/**
+ * Fetch the AlphaFold model for a UniProt accession. For proteins split
+ * into fragments, `positions` select the fragment to load.
+ */
+export async function fetchAlphaFoldStructure(
+  uniprotId: string,
+  positions: number[] = []
+): Promise<StructureResult> {
+  // Fetch prediction metadata from AlphaFold API
+  let predictions: AlphaFoldPrediction[];
+  try {
+    const alphaFoldRes = await fetch(
+      `https://alphafold.ebi.ac.uk/api/prediction/${uniprotId}`
+    );
+
+    if (alphaFoldRes.status === 404) {
+      return {
+        ok: false,
+        status: 404,
+        error: `No AlphaFold prediction found for UniProt ID: ${uniprotId}`,
+      };
+    }
+
+    if (!alphaFoldRes.ok) {
+      return {
+        ok: false,
+        status: 500,
+        error: `AlphaFold API returned status ${alphaFoldRes.status}`,
+      };
+    }
+
+    predictions = await alphaFoldRes.json();
+  } catch (err) {
+    return {
+      ok: false,
+      status: 500,
+      error: `Failed to fetch AlphaFold prediction: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  if (!Array.isArray(predictions) || predictions.length === 0) {
+    return {
+      ok: false,
+      status: 404,
+      error: `No AlphaFold prediction found for UniProt ID: ${uniprotId}`,
+    };
+  }
+
+  const prediction = chooseFragment(predictions, positions);
+  const pdbUrl = prediction.pdbUrl;
+
+  if (!pdbUrl && !prediction.cifUrl) {
+    return {
+      ok: false,
+      status: 500,
+      error: "AlphaFold prediction does not include a model file URL",
+    };
+  }
+
+  // Prefer the mmCIF model; the PDB file is the fallback
+  let coordinates = prediction.cifUrl
+    ? await fetchModelAtoms(prediction.cifUrl, "mmcif")
+    : null;
+  let format: StructureData["format"] = "mmcif";
+  if (!coordinates?.ok) {
+    if (!pdbUrl) {
+      return { ok: false, status: 500, error: coordinates?.error ?? "No model file available" };
+    }
+    coordinates = await fetchModelAtoms(pdbUrl, "pdb");
+    format = "pdb";
+  }
+  if (!coordinates.ok) {
+    return { ok: false, status: 500, error: coordinates.error };
+  }
+  let atoms = coordinates.atoms;
+
+  // Fragments are numbered from 1; shift them onto full-length numbering
+  const start = prediction.uniprotStart ?? 1;
+  const fragment: ModelFragment | null =
+    predictions.length > 1 || start > 1
+      ? {
+          index: fragmentIndex(prediction) ?? predictions.indexOf(prediction) + 1,
+          count: predictions.length,
+          start,
+          end: prediction.uniprotEnd ?? start,
+        }
+      : null;
+  const notes: string[] = [];
+  // PAE rows follow the model's own numbering
+  let paeStart = start;
+  if (fragment && start > 1 && atoms[0].resSeq === 1) {
+    const offset = start - 1;
+    if (atoms.every((atom) => atom.resSeq + offset <= 9999)) {
+      atoms = atoms.map((atom) => ({ ...atom, resSeq: atom.resSeq + offset }));
+    } else {
+      paeStart = 1;
+      notes.push(
+        `Fragment F${fragment.index} runs past residue 9999, which PDB format cannot number, so it keeps its own numbering: add ${start - 1} to get the UniProt position.`
+      );
+    }
+  }
+  if (fragment) {
+    const outside = positions.filter((p) => p < fragment.start || p > fragment.end);
+    if (outside.length > 0) {
+      notes.push(
+        `Residue${outside.length === 1 ? "" : "s"} ${outside.join(", ")} lie${outside.length === 1 ? "s" : ""} outside fragment F${fragment.index} (residues ${fragment.start}–${fragment.end}), so no pLDDT is shown for ${outside.length === 1 ? "it" : "them"}.`
+      );
+    }
+  }
+
+  // A missing PAE only hides the heatmap
+  const pae = prediction.paeDocUrl
+    ? await fetchPae(prediction.paeDocUrl, paeStart)
+    : null;
+
+  const pdbData = atomsToPdb(atoms);
+  const avgPlddt = meanBFactor(buildStructure(atoms));
+  const modelUrl = `https://alphafold.ebi.ac.uk/entry/${uniprotId}`;
+
+  return {
+    ok: true,
+    structure: {
+      pdbUrl: pdbUrl ?? null,
+      cifUrl: prediction.cifUrl ?? null,
+      pdbData,
+      format,
+      pae,
+      avgPlddt,
+      modelUrl,
+      modelAccession: uniprotId,
+      fragment,
+      note: notes.length > 0 ? notes.join(" ") : null,
+    },
+  };
+}
+
+type TextResult = { ok: true; text: string } | { ok: false; error: string };
+
+async function fetchText(url: string, label: string): Promise<TextResult> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) {
+      return { ok: false, error: `Failed to fetch ${label}: HTTP ${res.status}` };
+    }
+    return { ok: true, text: await res.text() };
+  } catch (err) {
+    return {
+      ok: false,
+      error: `Failed to fetch ${label}: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+type AtomsResult = { ok: true; atoms: Atom[] } | { ok: false; error: string };
+
+/** Download a model file and read the atoms of its first model */
+async function fetchModelAtoms(url: string, format: StructureData["format"]): Promise<AtomsResult> {
+  const label = format === "mmcif" ? "mmCIF file" : "PDB file";
+  const file = await fetchText(url, label);
+  if (!file.ok) return file;
+  const atoms = format === "mmcif" ? parseMmcifAtoms(file.text) : parsePdbAtoms(file.text);
+  if (atoms.length === 0) {
+    return { ok: false, error: `${label} contains no atom records` };
+  }
+  return { ok: true, atoms };
+}
+
+/** Fetch and bin the PAE JSON; failures return null */
+async function fetchPae(paeUrl: string, start: number): Promise<PaeMatrix | null> {
+  try {
+    const res = await fetch(paeUrl);
+    if (!res.ok) return null;
+    const parsed = parsePaeJson(await res.json());
+    return parsed ? { ...binPae(parsed.matrix, parsed.max), start } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch the model for a selected isoform. AlphaFold DB mostly models the
+ * canonical sequence only, so when the isoform has no model of its own the
+ * canonical model is returned with a note that its numbering may differ.
+ */
+export async function fetchIsoformStructure(
+  uniprotId: string,
+  isoformId: string,
+  positions: number[] = []
+): Promise<StructureResult> {
+  const isoform = await fetchAlphaFoldStructure(isoformId, positions);
+  if (isoform.ok || isoform.status !== 404) return isoform;
+
+  const canonical = await fetchAlphaFoldStructure(uniprotId, positions);
+  if (!canonical.ok) return canonical;
+  const fragmentNote = canonical.structure.note ? ` ${canonical.structure.note}` : "";
+  return {
+    ok: true,
+    structure: {
+      ...canonical.structure,
+      note: `AlphaFold DB has no model for isoform ${isoformId}; showing the canonical ${uniprotId} model. Residues outside the shared region may be numbered differently — fold the isoform with ESMFold to compare.${fragmentNote}`,
+    },
+  };
+}
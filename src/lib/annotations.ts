@@ -0,0 +1,81 @@
+import { formatMutation, type ParsedMutation } from "./hgvs";
+import { parseStructure, residueBFactors } from "./structure";
+import { findNearbyFeatures, type FeatureHit } from "./features";
+import { findDomain, HUMAN_TAXON_ID, type ProteinInfo } from "./uniprot";
+
+export interface Annotations {
+  alphamissense: string;
+  clinvar: string;
+}
+
+const KNOWN_ANNOTATIONS: Record<string, Annotations> = {
+  "TP53_R175H": {
+    alphamissense: "0.9461 (likely_pathogenic)",
+    clinvar: "Pathogenic — Li-Fraumeni syndrome",
+  },
+  "HBB_E6V": {
+    alphamissense: "0.7532 (likely_pathogenic)",
+    clinvar: "Pathogenic — Sickle cell disease",
+  },
+  "BRCA1_C61G": {
+    alphamissense: "0.8901 (likely_pathogenic)",
+    clinvar: "Pathogenic — Hereditary breast/ovarian cancer",
+  },
+  "EGFR_L858R": {
+    alphamissense: "0.6213 (ambiguous)",
+    clinvar: "Pathogenic/Likely pathogenic — Non-small cell lung cancer",
+  },
+  "BRAF_V600E": {
+    alphamissense: "0.9834 (likely_pathogenic)",
+    clinvar: "Pathogenic — Melanoma, colorectal cancer",
+  },
+};
+
+export function getAnnotations(gene: string, mutation: string): Annotations | null {
+  const key = `${gene}_${mutation}`;
+  return KNOWN_ANNOTATIONS[key] || null;
+}
+
+export interface SiteSummary {
+  mutation: ParsedMutation;
+  notation: string;
+  domain: string | null;
+  plddt: number | null;
+  annotations: Annotations | null;
+  /** UniProt features on or next to the affected residues */
+  features: FeatureHit[];
+}
+
+/** Per-site domain, pLDDT and annotations for each change of a variant */
+export function summarizeSites(
+  mutations: ParsedMutation[],
+  protein: ProteinInfo | null,
+  structure: { pdbData: string } | null
+): SiteSummary[] {
+  // The curated scores are for human proteins, keyed by gene symbol
+  const annotated = !protein || protein.taxonId === HUMAN_TAXON_ID;
+  const gene = protein?.geneName.toUpperCase() || mutations[0]?.gene;
+  const plddts = structure ? residueBFactors(parseStructure(structure.pdbData)) : null;
+  return mutations.map((m) => {
+    const notation = formatMutation(m);
+    return {
+      mutation: m,
+      notation,
+      domain: protein ? findDomain(protein.domains, m.position) : null,
+      plddt: plddts?.get(m.position) ?? null,
+      annotations: annotated ? getAnnotations(gene, notation) : null,
+      features: protein
+        ? findNearbyFeatures(protein.features, m.position, m.end)
+        : [],
+    };
+  });
+}
+
+/** Join a per-site value, prefixing each with its notation for compounds */
+export function joinSites(
+  sites: SiteSummary[],
+  value: (site: SiteSummary) => string
+): string {
+  if (sites.length === 1) return value(sites[0]);
+  return sites.map((site) => `${site.notation}: ${value(site)}`).join("; ");
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseBatchFile } from "./batch";
+import { parseMutations } from "./hgvs";
+
+function inputs(content: string): string[] {
+  const result = parseBatchFile("variants.csv", content);
+  if (!result.ok) throw new Error(result.error);
+  return result.rows.map((r) => r.input);
+}
+
+describe("parseBatchFile", () => {
+  it("keeps a gene or transcript prefix when there is no gene column", () => {
+    const rows = inputs("hgvsp\nTP53:p.R175H\nNM_000546.6(TP53):p.(Arg248Gln)\n");
+    expect(rows).toEqual(["TP53:p.R175H", "NM_000546.6(TP53):p.(Arg248Gln)"]);
+    for (const row of rows) {
+      const parsed = parseMutations(row);
+      expect(parsed.ok && parsed.mutations[0].gene).toBe("TP53");
+    }
+  });
+
+  it("drops a protein accession prefix whether or not a gene column is given", () => {
+    expect(inputs("hgvsp\nENSP00000269305.4:p.Arg175His\n")).toEqual(["p.Arg175His"]);
+    expect(inputs("gene,hgvsp\nTP53,NP_000537.3:p.Arg175His\n")).toEqual(["TP53 p.Arg175His"]);
+  });
+
+  it("drops a gene prefix that repeats the gene column", () => {
+    expect(inputs("gene,hgvsp\nTP53,TP53:p.R175H\n")).toEqual(["TP53 p.R175H"]);
+  });
+});
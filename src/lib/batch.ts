@@ -0,0 +1,383 @@
+import { formatMutation, parseMutations } from "./hgvs";
+import { isCdnaNotation, parseCdnaVariant, translateCdnaVariant } from "./cdna";
+import { findCds, findReferenceProtein } from "./transcripts";
+import { reconcileNumbering, type ReferenceProtein } from "./numbering";
+import {
+  nonCanonicalIsoform,
+  resolveProtein,
+  type LookupOptions,
+  type LookupResult,
+} from "./uniprot";
+import {
+  FRAGMENT_THRESHOLD,
+  fetchAlphaFoldStructure,
+  fetchIsoformStructure,
+  type StructureResult,
+} from "./alphafold";
+import { joinSites, summarizeSites } from "./annotations";
+
+export const MAX_BATCH_ROWS = 200;
+
+export interface BatchInputRow {
+  /** 1-indexed line number in the uploaded file */
+  row: number;
+  /** Variant as it would be typed into the search box, e.g. "TP53 R175H" */
+  input: string;
+}
+
+export type BatchParseResult =
+  | { ok: true; format: "csv" | "vcf"; rows: BatchInputRow[]; skipped: number }
+  | { ok: false; error: string };
+
+export interface BatchResultRow {
+  row: number;
+  input: string;
+  gene: string;
+  notation: string | null;
+  status: "ok" | "error";
+  error: string | null;
+  uniprotId: string | null;
+  proteinName: string | null;
+  domain: string | null;
+  plddt: number | null;
+  avgPlddt: number | null;
+  alphamissense: string | null;
+  clinvar: string | null;
+}
+
+const GENE_COLUMNS = ["gene", "gene_symbol", "symbol", "hugo_symbol", "gene_name"];
+const CHANGE_COLUMNS = [
+  "protein_change", "hgvsp", "hgvs_p", "hgvsp_short", "hgvs.p",
+  "aa_change", "amino_acid_change", "mutation", "variant", "change",
+];
+
+/** snpEff ANN: Allele|Annotation|Impact|Gene_Name|...|HGVS.c|HGVS.p|... */
+const ANN_GENE_INDEX = 3;
+const ANN_HGVSP_INDEX = 10;
+
+/** Split one CSV/TSV line, honouring double-quoted cells */
+function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** Ensembl and RefSeq protein accessions that annotations put before the change */
+const PROTEIN_ACCESSION_PREFIX = /^(?:ENSP\d+|[NXY]P_\d+)(?:\.\d+)?:/i;
+
+/**
+ * Clean a protein change taken from an annotation: URL-decode VEP's
+ * `%3D` and drop a protein accession prefix such as `ENSP00000269305.4:`.
+ * When `hasGene` is false the change must name its own protein, so a gene
+ * or transcript prefix (`TP53:`, `NM_000546.6(TP53):`) is kept.
+ */
+function normalizeProteinChange(change: string, hasGene: boolean): string {
+  let value = change.trim();
+  try {
+    value = decodeURIComponent(value);
+  } catch {
+    // Leave undecodable values as they are
+  }
+  if (!hasGene) return value.replace(PROTEIN_ACCESSION_PREFIX, "");
+  const colon = value.indexOf(":");
+  return colon >= 0 ? value.substring(colon + 1) : value;
+}
+
+function parseCsv(content: string): BatchParseResult {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, row: index + 1 }))
+    .filter(({ line }) => line.trim() && !line.startsWith("#"));
+  if (lines.length === 0) {
+    return { ok: false, error: "The file contains no variants." };
+  }
+
+  const delimiter = lines[0].line.includes("\t") ? "\t" : ",";
+  const header = splitDelimited(lines[0].line, delimiter).map((c) => c.toLowerCase());
+  const geneCol = header.findIndex((c) => GENE_COLUMNS.includes(c));
+  const changeCol = header.findIndex((c) => CHANGE_COLUMNS.includes(c));
+  const hasHeader = geneCol >= 0 || changeCol >= 0;
+  if (hasHeader && changeCol < 0) {
+    return {
+      ok: false,
+      error: `No protein change column found. Expected one of: ${CHANGE_COLUMNS.join(", ")}.`,
+    };
+  }
+
+  const rows: BatchInputRow[] = [];
+  let skipped = 0;
+  for (const { line, row } of hasHeader ? lines.slice(1) : lines) {
+    const cells = splitDelimited(line, delimiter);
+    let input: string;
+    if (hasHeader) {
+      const gene = geneCol >= 0 ? cells[geneCol] ?? "" : "";
+      const change = normalizeProteinChange(cells[changeCol] ?? "", gene !== "");
+      input = gene ? `${gene} ${change}` : change;
+    } else if (cells.length >= 2) {
+      input = `${cells[0]} ${normalizeProteinChange(cells[1], true)}`;
+    } else {
+      input = cells[0];
+    }
+    if (input.trim()) {
+      rows.push({ row, input: input.trim() });
+    } else {
+      skipped++;
+    }
+  }
+  return { ok: true, format: "csv", rows, skipped };
+}
+
+function parseVcf(content: string): BatchParseResult {
+  let csqFields: string[] | null = null;
+  const rows: BatchInputRow[] = [];
+  let skipped = 0;
+
+  const lines = content.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line.trim()) continue;
+
+    // VEP declares the CSQ layout in its INFO header
+    if (line.startsWith("##INFO=<ID=CSQ")) {
+      const format = line.match(/Format: ([^"]+)"/);
+      if (format) csqFields = format[1].split("|");
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    const columns = line.split("\t");
+    const info = new Map(
+      (columns[7] ?? "").split(";").map((kv) => {
+        const eq = kv.indexOf("=");
+        return eq < 0 ? [kv, ""] : [kv.substring(0, eq), kv.substring(eq + 1)];
+      })
+    );
+
+    // Candidate (gene, HGVSp) pairs from VEP CSQ and snpEff ANN entries
+    const candidates: [string, string][] = [];
+    const csq = info.get("CSQ");
+    if (csq && csqFields) {
+      const geneIndex = csqFields.indexOf("SYMBOL");
+      const hgvspIndex = csqFields.indexOf("HGVSp");
+      for (const entry of csq.split(",")) {
+        const fields = entry.split("|");
+        candidates.push([fields[geneIndex] ?? "", fields[hgvspIndex] ?? ""]);
+      }
+    }
+    const ann = info.get("ANN");
+    if (ann) {
+      for (const entry of ann.split(",")) {
+        const fields = entry.split("|");
+        candidates.push([fields[ANN_GENE_INDEX] ?? "", fields[ANN_HGVSP_INDEX] ?? ""]);
+      }
+    }
+
+    const match = candidates.find(([gene, hgvsp]) => gene && hgvsp);
+    if (match) {
+      rows.push({ row: index + 1, input: `${match[0]} ${normalizeProteinChange(match[1], true)}` });
+    } else {
+      skipped++;
+    }
+  }
+
+  if (rows.length === 0 && skipped === 0) {
+    return { ok: false, error: "The VCF contains no variant records." };
+  }
+  return { ok: true, format: "vcf", rows, skipped };
+}
+
+/**
+ * Parse an uploaded CSV/TSV (gene + protein change columns, or one
+ * "GENE change" column) or an annotated VCF whose VEP `CSQ` or snpEff
+ * `ANN` INFO fields carry the protein change. Records without a protein
+ * change (intergenic, intronic, synonymous without HGVSp) are skipped.
+ */
+export function parseBatchFile(filename: string, content: string): BatchParseResult {
+  const isVcf =
+    /\.vcf(\.txt)?$/i.test(filename) || content.startsWith("##fileformat=VCF");
+  const parsed = isVcf ? parseVcf(content) : parseCsv(content);
+  if (!parsed.ok) return parsed;
+
+  // The same variant on several lines is analysed once
+  const seen = new Set<string>();
+  const rows = parsed.rows.filter((r) => {
+    const key = r.input.toUpperCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (rows.length > MAX_BATCH_ROWS) {
+    return {
+      ok: false,
+      error: `The file has ${rows.length} variants; the batch limit is ${MAX_BATCH_ROWS}.`,
+    };
+  }
+  return { ...parsed, rows };
+}
+
+function failedRow(row: BatchInputRow, gene: string, error: string): BatchResultRow {
+  return {
+    row: row.row,
+    input: row.input,
+    gene,
+    notation: null,
+    status: "error",
+    error,
+    uniprotId: null,
+    proteinName: null,
+    domain: null,
+    plddt: null,
+    avgPlddt: null,
+    alphamissense: null,
+    clinvar: null,
+  };
+}
+
+/**
+ * Run every row through the same lookup, structure and annotation steps
+ * as the single-variant view. Proteins and structures are fetched once
+ * per gene and accession; rows are processed one at a time so a large
+ * file does not flood UniProt or AlphaFold.
+ */
+export async function runBatch(
+  rows: BatchInputRow[],
+  options: LookupOptions = {}
+): Promise<BatchResultRow[]> {
+  const lookups = new Map<string, Promise<LookupResult>>();
+  const structures = new Map<string, Promise<StructureResult>>();
+  const references = new Map<string, Promise<ReferenceProtein | null>>();
+  const results: BatchResultRow[] = [];
+
+  for (const row of rows) {
+    let proteinInput = row.input;
+    let cdsTranscript: string | null = null;
+    const fallbackGene = row.input.split(/[\s:(]/)[0].toUpperCase();
+
+    // Coding-DNA rows are translated against the local CDS first
+    if (isCdnaNotation(row.input)) {
+      const cdna = parseCdnaVariant(row.input);
+      if (!cdna.ok) {
+        results.push(failedRow(row, fallbackGene, cdna.error));
+        continue;
+      }
+      let record;
+      try {
+        record = await findCds(cdna.variant.gene, cdna.variant.transcript);
+      } catch (error) {
+        results.push(failedRow(row, cdna.variant.gene, error instanceof Error ? error.message : String(error)));
+        continue;
+      }
+      if (!record) {
+        results.push(failedRow(row, cdna.variant.gene, `No CDS found for ${cdna.variant.transcript ?? cdna.variant.gene}.`));
+        continue;
+      }
+      const translated = translateCdnaVariant(record.sequence, cdna.variant);
+      if (!translated.ok) {
+        results.push(failedRow(row, cdna.variant.gene, translated.error));
+        continue;
+      }
+      proteinInput = `${cdna.variant.gene}:${translated.consequence.proteinChange}`;
+      cdsTranscript = record.id;
+    }
+
+    const parsed = parseMutations(proteinInput);
+    if (!parsed.ok) {
+      results.push(failedRow(row, fallbackGene, parsed.error));
+      continue;
+    }
+    const gene = parsed.mutations[0].gene;
+
+    if (!lookups.has(gene)) lookups.set(gene, resolveProtein(gene, options));
+    const lookup = await lookups.get(gene)!;
+    if (!lookup.ok) {
+      results.push(failedRow(row, gene, lookup.error));
+      continue;
+    }
+    const protein = lookup.protein;
+
+    // Every site is carried over to UniProt numbering, as in the single-variant view
+    const transcript = cdsTranscript ?? parsed.mutations[0].transcript;
+    const referenceKey = `${gene}|${transcript ?? ""}`;
+    if (!references.has(referenceKey)) {
+      references.set(referenceKey, findReferenceProtein(gene, transcript));
+    }
+    const numbering = reconcileNumbering(
+      protein.sequence,
+      parsed.mutations,
+      await references.get(referenceKey)!
+    );
+    const unresolved = numbering.sites.find((s) => s.method === "unresolved");
+    if (unresolved) {
+      results.push(
+        failedRow(row, gene, `UniProt ${protein.isoformId ?? protein.uniprotId}: ${unresolved.note}`)
+      );
+      continue;
+    }
+    const mutations = numbering.changes;
+
+    const isoform = nonCanonicalIsoform(protein);
+    const positions = mutations.map((m) => m.position);
+    // Long proteins are split into fragments, chosen by the sites
+    const structureKey =
+      (isoform ?? protein.uniprotId) +
+      (protein.sequence.length > FRAGMENT_THRESHOLD ? `@${positions.join(",")}` : "");
+    if (!structures.has(structureKey)) {
+      structures.set(
+        structureKey,
+        isoform
+          ? fetchIsoformStructure(protein.uniprotId, isoform, positions)
+          : fetchAlphaFoldStructure(protein.uniprotId, positions)
+      );
+    }
+    const structure = await structures.get(structureKey)!;
+    const model = structure.ok ? structure.structure : null;
+
+    const sites = summarizeSites(mutations, protein, model);
+    results.push({
+      row: row.row,
+      input: row.input,
+      gene,
+      notation: mutations.map(formatMutation).join(" + "),
+      status: "ok",
+      error: structure.ok ? null : structure.error,
+      uniprotId: isoform ?? protein.uniprotId,
+      proteinName: protein.proteinName,
+      domain: sites.some((s) => s.domain)
+        ? joinSites(sites, (s) => s.domain ?? "None")
+        : null,
+      plddt: sites[0].plddt,
+      avgPlddt: model?.avgPlddt ?? null,
+      alphamissense: sites.some((s) => s.annotations)
+        ? joinSites(sites, (s) => s.annotations?.alphamissense ?? "N/A")
+        : null,
+      clinvar: sites.some((s) => s.annotations)
+        ? joinSites(sites, (s) => s.annotations?.clinvar ?? "N/A")
+        : null,
+    });
+  }
+
+  return results;
+}
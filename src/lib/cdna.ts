@@ -0,0 +1,194 @@
+export interface CdnaVariant {
+  gene: string;
+  /** Transcript accession when given as NM_000546.6(TP53):c.524G>A */
+  transcript: string | null;
+  /** Coding position, 1 = A of the ATG start codon */
+  position: number;
+  ref: string;
+  alt: string;
+}
+
+export type CdnaParseResult =
+  | { ok: true; variant: CdnaVariant }
+  | { ok: false; error: string };
+
+export interface ProteinConsequence {
+  type: "missense" | "nonsense" | "synonymous";
+  /** Protein position of the affected codon */
+  position: number;
+  original: string;
+  mutant: string;
+  refCodon: string;
+  altCodon: string;
+  /** HGVS protein change in one-letter code, e.g. p.R175H or p.R175= */
+  proteinChange: string;
+}
+
+export type TranslationResult =
+  | { ok: true; consequence: ProteinConsequence }
+  | { ok: false; error: string };
+
+const BASES = "TCAG";
+const AMINO_ACIDS_BY_CODON =
+  "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG";
+
+/** The standard genetic code (NCBI translation table 1) */
+export const GENETIC_CODE: Record<string, string> = {};
+for (let i = 0; i < 64; i++) {
+  const codon =
+    BASES[Math.floor(i / 16)] + BASES[Math.floor(i / 4) % 4] + BASES[i % 4];
+  GENETIC_CODE[codon] = AMINO_ACIDS_BY_CODON[i];
+}
+
+const CDNA_VARIANT =
+  /^(?:([A-Za-z]{2,4}_?\d+(?:\.\d+)?)\(([A-Za-z][A-Za-z0-9-]*)\)|([A-Za-z][A-Za-z0-9-]*))\s*[:\s]\s*c\.(\S+)$/;
+
+/** True when the input looks like a coding-DNA variant (`c.` notation) */
+export function isCdnaNotation(input: string): boolean {
+  return /(^|[\s:])c\./i.test(input.trim());
+}
+
+/**
+ * Parse a coding-DNA substitution such as `TP53 c.524G>A` or
+ * `NM_000546.6(TP53):c.524G>A`. Intronic (`c.375+1G>A`), UTR (`c.-30C>T`,
+ * `c.*12A>G`) and non-substitution changes are rejected because they have
+ * no direct codon consequence.
+ */
+export function parseCdnaVariant(input: string): CdnaParseResult {
+  const text = input.trim();
+  const match = text.match(CDNA_VARIANT);
+  if (!match) {
+    return {
+      ok: false,
+      error: `Could not parse "${text}". Expected something like "TP53 c.524G>A".`,
+    };
+  }
+
+  const transcript = match[1] ?? null;
+  const gene = (match[2] ?? match[3]).toUpperCase();
+  const change = match[4];
+
+  if (/^[-*]/.test(change) || /^\d+[+-]\d/.test(change)) {
+    return {
+      ok: false,
+      error: `c.${change} lies outside the coding sequence (intronic or UTR); it has no codon to translate.`,
+    };
+  }
+
+  const substitution = change.match(/^(\d+)([ACGTacgt])>([ACGTacgt])$/);
+  if (!substitution) {
+    return {
+      ok: false,
+      error: `Only single-nucleotide substitutions (e.g. c.524G>A) can be translated, got "c.${change}".`,
+    };
+  }
+
+  const ref = substitution[2].toUpperCase();
+  const alt = substitution[3].toUpperCase();
+  if (ref === alt) {
+    return { ok: false, error: `c.${change} does not change the base.` };
+  }
+
+  return {
+    ok: true,
+    variant: {
+      gene,
+      transcript,
+      position: parseInt(substitution[1], 10),
+      ref,
+      alt,
+    },
+  };
+}
+
+/** Translate a substitution in `cds` into its effect on the protein */
+export function translateCdnaVariant(
+  cds: string,
+  variant: CdnaVariant
+): TranslationResult {
+  const sequence = cds.toUpperCase().replace(/U/g, "T");
+  const { position, ref, alt } = variant;
+
+  if (position < 1 || position > sequence.length) {
+    return {
+      ok: false,
+      error: `c.${position} is outside the coding sequence (length ${sequence.length}).`,
+    };
+  }
+  if (sequence[position - 1] !== ref) {
+    return {
+      ok: false,
+      error: `Reference mismatch: the transcript has ${sequence[position - 1]} at c.${position}, not ${ref}.`,
+    };
+  }
+
+  const codonIndex = Math.floor((position - 1) / 3);
+  const refCodon = sequence.substring(codonIndex * 3, codonIndex * 3 + 3);
+  if (refCodon.length < 3) {
+    return {
+      ok: false,
+      error: `c.${position} falls in an incomplete codon at the end of the coding sequence.`,
+    };
+  }
+  const offset = (position - 1) % 3;
+  const altCodon =
+    refCodon.substring(0, offset) + alt + refCodon.substring(offset + 1);
+
+  const original = GENETIC_CODE[refCodon];
+  const mutant = GENETIC_CODE[altCodon];
+  if (!original || !mutant) {
+    return {
+      ok: false,
+      error: `Codon ${refCodon} contains ambiguous bases and cannot be translated.`,
+    };
+  }
+
+  const proteinPosition = codonIndex + 1;
+  if (original === "*") {
+    return {
+      ok: false,
+      error: `c.${position} changes the stop codon (stop-loss); extensions are not supported.`,
+    };
+  }
+  if (proteinPosition === 1 && mutant !== original) {
+    return {
+      ok: false,
+      error: `c.${position} changes the start codon (p.Met1?); the protein effect cannot be predicted.`,
+    };
+  }
+
+  const type =
+    mutant === original ? "synonymous" : mutant === "*" ? "nonsense" : "missense";
+  const proteinChange =
+    type === "synonymous"
+      ? `p.${original}${proteinPosition}=`
+      : `p.${original}${proteinPosition}${mutant}`;
+
+  return {
+    ok: true,
+    consequence: {
+      type,
+      position: proteinPosition,
+      original,
+      mutant,
+      refCodon,
+      altCodon,
+      proteinChange,
+    },
+  };
+}
+
+/**
+ * Translate a coding sequence up to its first stop codon. Codons with
+ * ambiguous bases become "X", so positions stay in step.
+ */
+export function translateCds(cds: string): string {
+  const sequence = cds.toUpperCase().replace(/U/g, "T");
+  let protein = "";
+  for (let i = 0; i + 3 <= sequence.length; i += 3) {
+    const residue = GENETIC_CODE[sequence.substring(i, i + 3)] ?? "X";
+    if (residue === "*") break;
+    protein += residue;
+  }
+  return protein;
+}
@@ -0,0 +1,81 @@
+import type { FoldingProvider } from "./folding";
+import type { FoldWindow } from "./foldwindow";
+import { atomsToPdb, meanBFactor, parsePdbAtoms, parseStructure } from "./structure";
+
+/** What a fold job folds, once the route has validated the variant */
+export interface FoldInput {
+  /** Sequence to fold: the full mutant or a window of it */
+  mutant: string;
+  /** Wild-type sequence to fold as a baseline, or null */
+  wildType: string | null;
+  window: FoldWindow | null;
+  /** Full-length mutant sequence */
+  mutantSequence: string;
+  correctedPositions: (number | null)[];
+  notes: string[];
+}
+
+/** A finished fold as the client receives it */
+export interface FoldOutput {
+  pdbData: string;
+  avgPlddt: number;
+  wildType: { pdbData: string; avgPlddt: number } | null;
+  window: FoldWindow | null;
+  mutantSequence: string;
+  sequenceLength: number;
+  correctedPositions: (number | null)[];
+  note: string | null;
+  /** Name of the folding provider that made the models */
+  provider: string;
+}
+
+export type FoldRunResult = { ok: true; output: FoldOutput } | { ok: false; error: string };
+
+/** Move a window's model from window numbering to full-length numbering */
+function toFullLength(pdbData: string, window: FoldWindow | null): string {
+  if (!window || window.start === 1) return pdbData;
+  const offset = window.start - 1;
+  return atomsToPdb(
+    parsePdbAtoms(pdbData).map((atom) => ({ ...atom, resSeq: atom.resSeq + offset }))
+  );
+}
+
+/**
+ * Fold the mutant (and the wild type, when asked) and return both models
+ * in full-length numbering. `onStage` reports what is being folded.
+ */
+export async function runFold(
+  provider: FoldingProvider,
+  input: FoldInput,
+  signal: AbortSignal,
+  onStage: (stage: string) => void
+): Promise<FoldRunResult> {
+  onStage(input.wildType ? "Folding mutant and wild type" : "Folding mutant");
+  const [mutantFold, wildFold] = await Promise.all([
+    provider.fold(input.mutant, signal),
+    input.wildType ? provider.fold(input.wildType, signal) : null,
+  ]);
+  if (!mutantFold.ok) return mutantFold;
+
+  const notes = [...input.notes];
+  if (wildFold && !wildFold.ok) notes.push(`The wild-type fold failed: ${wildFold.error}`);
+
+  const pdbData = toFullLength(mutantFold.pdbData, input.window);
+  const wildPdbData = wildFold?.ok ? toFullLength(wildFold.pdbData, input.window) : null;
+  return {
+    ok: true,
+    output: {
+      pdbData,
+      avgPlddt: meanBFactor(parseStructure(pdbData)),
+      wildType: wildPdbData
+        ? { pdbData: wildPdbData, avgPlddt: meanBFactor(parseStructure(wildPdbData)) }
+        : null,
+      window: input.window,
+      mutantSequence: input.mutantSequence,
+      sequenceLength: input.mutantSequence.length,
+      correctedPositions: input.correctedPositions,
+      note: notes.length > 0 ? notes.join(" ") : null,
+      provider: provider.name,
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import { parseMmcifAtoms } from "./mmcif";
+import { atomsToPdb } from "./structure";
+import {
+  coversResidue,
+  labelSeqToUniprot,
+  readSiftsSegments,
+  type SiftsSegment,
+} from "./sifts";
+
+/** One chain of a PDB entry mapped to the UniProt sequence */
+export interface PdbEntry {
+  pdbId: string;
+  chain: string;
+  /** Experimental method, e.g. "X-RAY DIFFRACTION" */
+  method: string | null;
+  /** Resolution in Å; null for NMR and when RCSB could not be reached */
+  resolution: number | null;
+  /** Fraction of the UniProt sequence the chain is mapped to (0-1) */
+  coverage: number;
+  /** UniProt residue ranges the chain covers */
+  ranges: [number, number][];
+}
+
+export interface SiteMapping {
+  /** UniProt residue */
+  position: number;
+  /** Author residue number with insertion code, null when not modelled */
+  author: string | null;
+}
+
+export interface ExperimentalStructure {
+  pdbId: string;
+  chain: string;
+  method: string | null;
+  resolution: number | null;
+  /** The chain's atoms in PDB format, renumbered to UniProt positions */
+  pdbData: string;
+  sites: SiteMapping[];
+  entryUrl: string;
+}
+
+export type PdbEntriesResult =
+  | { ok: true; entries: PdbEntry[] }
+  | { ok: false; status: number; error: string };
+
+export type ExperimentalStructureResult =
+  | { ok: true; structure: ExperimentalStructure }
+  | { ok: false; status: number; error: string };
+
+/** Entries whose resolution is looked up and returned */
+const MAX_ENTRIES = 30;
+
+const RCSB_GRAPHQL = "https://data.rcsb.org/graphql";
+
+interface EntryInfo {
+  method: string | null;
+  resolution: number | null;
+}
+
+/** Method and resolution for several entries in one RCSB request */
+async function fetchEntryInfo(pdbIds: string[]): Promise<Map<string, EntryInfo>> {
+  const info = new Map<string, EntryInfo>();
+  if (pdbIds.length === 0) return info;
+
+  const query = `{ entries(entry_ids: ${JSON.stringify(pdbIds)}) {
+    rcsb_id
+    exptl { method }
+    rcsb_entry_info { resolution_combined }
+  } }`;
+
+  try {
+    const res = await fetch(RCSB_GRAPHQL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query }),
+    });
+    if (!res.ok) return info;
+    const data = await res.json();
+    for (const entry of data?.data?.entries ?? []) {
+      info.set(String(entry.rcsb_id).toUpperCase(), {
+        method: entry.exptl?.[0]?.method ?? null,
+        resolution: entry.rcsb_entry_info?.resolution_combined?.[0] ?? null,
+      });
+    }
+  } catch {
+    // Entries are still listed, without resolution
+  }
+  return info;
+}
+
+function groupByChain(segments: SiftsSegment[]): Map<string, SiftsSegment[]> {
+  const chains = new Map<string, SiftsSegment[]>();
+  for (const s of segments) {
+    const key = `${s.pdbId}:${s.chain}`;
+    chains.set(key, [...(chains.get(key) ?? []), s]);
+  }
+  return chains;
+}
+
+/**
+ * List PDB chains from the local SIFTS mapping that cover every given
+ * UniProt position, best resolution first, then widest coverage.
+ */
+export async function findPdbEntries(
+  uniprotId: string,
+  sequenceLength: number,
+  positions: number[]
+): Promise<PdbEntriesResult> {
+  let segments: SiftsSegment[];
+  try {
+    segments = await readSiftsSegments(uniprotId);
+  } catch (error) {
+    return {
+      ok: false,
+      status: 500,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const covering = [...groupByChain(segments).values()]
+    .filter((chain) => positions.every((p) => coversResidue(chain, p)))
+    .map((chain) => {
+      const covered = chain.reduce((sum, s) => sum + (s.spEnd - s.spBeg + 1), 0);
+      return {
+        pdbId: chain[0].pdbId,
+        chain: chain[0].chain,
+        coverage: sequenceLength > 0 ? Math.min(covered / sequenceLength, 1) : 0,
+        ranges: chain.map((s): [number, number] => [s.spBeg, s.spEnd]),
+      };
+    })
+    .sort((a, b) => b.coverage - a.coverage)
+    .slice(0, MAX_ENTRIES);
+
+  const info = await fetchEntryInfo([...new Set(covering.map((e) => e.pdbId))]);
+  const entries: PdbEntry[] = covering
+    .map((e) => ({
+      ...e,
+      method: info.get(e.pdbId)?.method ?? null,
+      resolution: info.get(e.pdbId)?.resolution ?? null,
+    }))
+    .sort(
+      (a, b) =>
+        (a.resolution ?? Infinity) - (b.resolution ?? Infinity) ||
+        b.coverage - a.coverage
+    );
+
+  return { ok: true, entries };
+}
+
+/**
+ * Download one chain of a PDB entry and renumber it from author
+ * numbering to UniProt positions via SIFTS, so the viewer can highlight
+ * sites by their UniProt number. Ligands, water and unmapped residues
+ * (tags, linkers) are dropped, and only the first alternate location is kept.
+ */
+export async function fetchExperimentalStructure(
+  uniprotId: string,
+  pdbId: string,
+  chain: string,
+  positions: number[]
+): Promise<ExperimentalStructureResult> {
+  let segments: SiftsSegment[];
+  try {
+    segments = (await readSiftsSegments(uniprotId)).filter(
+      (s) => s.pdbId === pdbId.toUpperCase() && s.chain === chain
+    );
+  } catch (error) {
+    return {
+      ok: false,
+      status: 500,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  if (segments.length === 0) {
+    return {
+      ok: false,
+      status: 404,
+      error: `SIFTS has no mapping of ${pdbId} chain ${chain} to ${uniprotId}.`,
+    };
+  }
+
+  let cif: string;
+  try {
+    const res = await fetch(
+      `https://files.rcsb.org/download/${pdbId.toUpperCase()}.cif`
+    );
+    if (!res.ok) {
+      return {
+        ok: false,
+        status: res.status === 404 ? 404 : 500,
+        error: `Failed to fetch ${pdbId} from RCSB: HTTP ${res.status}`,
+      };
+    }
+    cif = await res.text();
+  } catch (err) {
+    return {
+      ok: false,
+      status: 500,
+      error: `Failed to fetch ${pdbId} from RCSB: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  const authorByPosition = new Map<number, string>();
+  const atoms = parseMmcifAtoms(cif).flatMap((atom) => {
+    if (atom.chain !== chain || atom.labelSeq === null) return [];
+    if (atom.altLoc && atom.altLoc !== "A") return [];
+    const position = labelSeqToUniprot(segments, atom.labelSeq);
+    if (position === null) return [];
+    authorByPosition.set(position, `${atom.resSeq}${atom.iCode}`);
+    return [{ ...atom, resSeq: position, iCode: "", altLoc: "" }];
+  });
+
+  if (atoms.length === 0) {
+    return {
+      ok: false,
+      status: 404,
+      error: `${pdbId} chain ${chain} has no modelled residues mapped to ${uniprotId}.`,
+    };
+  }
+
+  const info = (await fetchEntryInfo([pdbId.toUpperCase()])).get(pdbId.toUpperCase());
+  return {
+    ok: true,
+    structure: {
+      pdbId: pdbId.toUpperCase(),
+      chain,
+      method: info?.method ?? null,
+      resolution: info?.resolution ?? null,
+      pdbData: atomsToPdb(atoms),
+      sites: positions.map((position) => ({
+        position,
+        author: authorByPosition.get(position) ?? null,
+      })),
+      entryUrl: `https://www.rcsb.org/structure/${pdbId.toUpperCase()}`,
+    },
+  };
+}
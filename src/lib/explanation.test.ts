@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { parseStructuredExplanation, suppliedEvidence } from "./explanation";
+
+const REPLY = JSON.stringify({
+  summary: "R175H lies in the DNA-binding domain.",
+  claims: [
+    { text: "The site is in the DNA-binding domain.", evidence: "domain" },
+    { text: "AlphaMissense scores it as pathogenic.", evidence: "alphamissense" },
+    { text: "It is well known to be oncogenic." },
+  ],
+  uncertainty: "Structure alone does not establish the clinical effect.",
+});
+
+describe("suppliedEvidence", () => {
+  it("leaves out fields that were not sent or only say Not available", () => {
+    expect(
+      suppliedEvidence({
+        domain: "DNA-binding domain",
+        plddt: 92.4,
+        alphamissense: "R175H: Not available; R248Q: Not available",
+        clinvar: "R175H: Pathogenic; R248Q: Not available",
+      })
+    ).toEqual(["domain", "plddt", "clinvar"]);
+  });
+});
+
+describe("parseStructuredExplanation", () => {
+  it("drops claims that cite nothing or evidence that was not supplied", () => {
+    const parsed = parseStructuredExplanation(REPLY, ["domain", "plddt", "clinvar"]);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.explanation.claims.map((c) => c.evidence)).toEqual(["domain"]);
+    expect(parsed.explanation.rejectedClaims).toBe(2);
+  });
+
+  it("keeps claims citing any input field when every field was supplied", () => {
+    const parsed = parseStructuredExplanation(REPLY);
+    expect(parsed.ok && parsed.explanation.claims).toHaveLength(2);
+  });
+
+  it("rejects a reply without a summary", () => {
+    expect(parseStructuredExplanation('{"claims": [], "uncertainty": ""}').ok).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/** Input fields a claim may cite as its evidence */
+export const EVIDENCE_FIELDS = ["domain", "plddt", "alphamissense", "clinvar", "features"] as const;
+
+export type EvidenceField = (typeof EVIDENCE_FIELDS)[number];
+
+export const EVIDENCE_LABELS: Record<EvidenceField, string> = {
+  domain: "Domain",
+  plddt: "pLDDT",
+  alphamissense: "AlphaMissense",
+  clinvar: "ClinVar",
+  features: "UniProt features",
+};
+
+export interface ExplanationClaim {
+  text: string;
+  evidence: EvidenceField;
+}
+
+/** The explanation as the model must return it, after validation */
+export interface StructuredExplanation {
+  summary: string;
+  /** Claims that cite one of the input fields */
+  claims: ExplanationClaim[];
+  /** What the evidence does not establish */
+  uncertainty: string;
+  /** Claims dropped for citing nothing, or something that was not supplied */
+  rejectedClaims: number;
+}
+
+export type ExplanationParseResult =
+  | { ok: true; explanation: StructuredExplanation }
+  | { ok: false; error: string };
+
+function isEvidenceField(value: unknown): value is EvidenceField {
+  return typeof value === "string" && (EVIDENCE_FIELDS as readonly string[]).includes(value);
+}
+
+/** Values that stand in for evidence nobody supplied */
+const NOT_SUPPLIED = new Set(["", "not available", "none reported"]);
+
+/**
+ * The fields that carry evidence a claim can rest on. A field is missing
+ * when it was not sent or when every site's value is a placeholder such
+ * as "Not available" (one site's value reads "R175H: Not available").
+ */
+export function suppliedEvidence(
+  values: Partial<Record<EvidenceField, string | number | null>>
+): EvidenceField[] {
+  return EVIDENCE_FIELDS.filter((field) => {
+    const value = values[field];
+    if (value === undefined || value === null) return false;
+    if (typeof value === "number") return true;
+    return value
+      .split(";")
+      .some((part) => !NOT_SUPPLIED.has(part.replace(/^\s*[^:]*\d[^:]*:/, "").trim().toLowerCase()));
+  });
+}
+
+/** Models sometimes wrap JSON in a Markdown code fence despite being told not to */
+function stripCodeFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+}
+
+/**
+ * Validate the model's JSON reply. The summary and uncertainty must be
+ * strings; claims whose `evidence` is not one of the `supplied` fields are
+ * dropped and counted, so only claims cited to real evidence reach the reader.
+ */
+export function parseStructuredExplanation(
+  text: string,
+  supplied: readonly EvidenceField[] = EVIDENCE_FIELDS
+): ExplanationParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(text));
+  } catch {
+    return { ok: false, error: "The model did not return valid JSON." };
+  }
+  if (typeof data !== "object" || data === null) {
+    return { ok: false, error: "The model's reply is not a JSON object." };
+  }
+
+  const { summary, claims, uncertainty } = data as Record<string, unknown>;
+  if (typeof summary !== "string" || !summary.trim()) {
+    return { ok: false, error: "The model's reply has no summary." };
+  }
+  if (typeof uncertainty !== "string") {
+    return { ok: false, error: "The model's reply does not state its uncertainty." };
+  }
+  if (!Array.isArray(claims)) {
+    return { ok: false, error: "The model's reply has no list of claims." };
+  }
+
+  const cited: ExplanationClaim[] = [];
+  for (const claim of claims) {
+    const { text: claimText, evidence } = (claim ?? {}) as Record<string, unknown>;
+    if (
+      typeof claimText === "string" &&
+      claimText.trim() &&
+      isEvidenceField(evidence) &&
+      supplied.includes(evidence)
+    ) {
+      cited.push({ text: claimText.trim(), evidence });
+    }
+  }
+
+  return {
+    ok: true,
+    explanation: {
+      summary: summary.trim(),
+      claims: cited,
+      uncertainty: uncertainty.trim(),
+      rejectedClaims: claims.length - cited.length,
+    },
+  };
+}
+
+/**
+ * The part of the summary received so far, read from incomplete JSON so
+ * the summary can be shown while the rest of the reply streams in.
+ */
+export function partialSummary(text: string): string {
+  const match = text.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return "";
+  // Drop a trailing half escape sequence before decoding
+  const body = match[1].replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+  try {
+    return JSON.parse(`"${body}"`);
+  } catch {
+    return body;
+  }
+}
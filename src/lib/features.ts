@@ -0,0 +1,130 @@
+/** Functional residues, modifications, regions, membrane topology and known variants */
+export type FeatureCategory = "site" | "ptm" | "region" | "membrane" | "variant";
+
+export interface ProteinFeature {
+  /** UniProt feature type, e.g. "Active site" or "Modified residue" */
+  type: string;
+  category: FeatureCategory;
+  description: string;
+  start: number;
+  end: number;
+  /** Reference and alternative residues of a natural variant */
+  variation: { original: string; alternatives: string[] } | null;
+}
+
+/** A feature at or near one variant site */
+export interface FeatureHit {
+  feature: ProteinFeature;
+  /** Residues between the site and the feature; 0 when the site is on it */
+  distance: number;
+}
+
+/** Residues either side of a site that still count as "next to" a feature */
+export const FEATURE_WINDOW = 2;
+
+const FEATURE_CATEGORIES: Record<string, FeatureCategory> = {
+  "Active site": "site",
+  "Binding site": "site",
+  "Metal binding": "site",
+  "Site": "site",
+  "Modified residue": "ptm",
+  "Glycosylation": "ptm",
+  "Disulfide bond": "ptm",
+  "Cross-link": "ptm",
+  "Lipidation": "ptm",
+  "Motif": "region",
+  "Region": "region",
+  "Zinc finger": "region",
+  "DNA binding": "region",
+  "Coiled coil": "region",
+  "Signal": "region",
+  "Propeptide": "region",
+  "Transmembrane": "membrane",
+  "Intramembrane": "membrane",
+  "Topological domain": "membrane",
+  "Natural variant": "variant",
+};
+
+/** UniProt search return fields for every feature type above */
+export const FEATURE_FIELDS = [
+  "ft_act_site", "ft_binding", "ft_site", "ft_mod_res", "ft_carbohyd",
+  "ft_disulfid", "ft_crosslnk", "ft_lipid", "ft_motif", "ft_region",
+  "ft_zn_fing", "ft_dna_bind", "ft_coiled", "ft_signal", "ft_propep",
+  "ft_transmem", "ft_intramem", "ft_topo_dom", "ft_variant",
+];
+
+export interface UniProtFeature {
+  type?: string;
+  description?: string;
+  location?: { start?: { value?: number }; end?: { value?: number } };
+  ligand?: { name?: string };
+  alternativeSequence?: {
+    originalSequence?: string;
+    alternativeSequences?: string[];
+  };
+}
+
+/** Keep the feature types this app tracks, typed by category */
+export function extractFeatures(features: UniProtFeature[]): ProteinFeature[] {
+  return features.flatMap((f) => {
+    const category = f.type ? FEATURE_CATEGORIES[f.type] : undefined;
+    const start = f.location?.start?.value;
+    const end = f.location?.end?.value;
+    if (!category || start === undefined || end === undefined) return [];
+
+    // Binding sites carry their ligand instead of a description
+    const description =
+      f.description || (f.ligand?.name ? `Binds ${f.ligand.name}` : "");
+    const alt = f.alternativeSequence;
+    return [{
+      type: f.type!,
+      category,
+      description,
+      start,
+      end,
+      variation: alt?.originalSequence
+        ? { original: alt.originalSequence, alternatives: alt.alternativeSequences ?? [] }
+        : null,
+    }];
+  });
+}
+
+/**
+ * Residues a feature occupies for proximity checks. A disulfide bond is
+ * annotated by its two cysteines, not the stretch between them.
+ */
+function featureSpans(feature: ProteinFeature): [number, number][] {
+  if (feature.type === "Disulfide bond" || feature.type === "Cross-link") {
+    return [[feature.start, feature.start], [feature.end, feature.end]];
+  }
+  return [[feature.start, feature.end]];
+}
+
+/** Features on or within `window` residues of the span start..end, nearest first */
+export function findNearbyFeatures(
+  features: ProteinFeature[],
+  start: number,
+  end: number,
+  window = FEATURE_WINDOW
+): FeatureHit[] {
+  return features
+    .map((feature) => {
+      const distance = Math.min(
+        ...featureSpans(feature).map(([fs, fe]) =>
+          Math.max(0, fs - end, start - fe)
+        )
+      );
+      return { feature, distance };
+    })
+    .filter((hit) => hit.distance <= window)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/** Short label for a feature hit, e.g. "Modified residue: Phosphoserine" */
+export function describeFeature(feature: ProteinFeature): string {
+  if (feature.variation) {
+    const change = `${feature.variation.original}${feature.start} → ${feature.variation.alternatives.join("/") || "?"}`;
+    return feature.description ? `${change} (${feature.description})` : change;
+  }
+  return feature.description ? `${feature.type}: ${feature.description}` : feature.type;
+}
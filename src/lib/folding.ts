@@ -0,0 +1,196 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { THREE_TO_ONE } from "./hgvs";
+import { atomsToPdb, type Atom } from "./structure";
+
+export type FoldingProviderId = "esmatlas" | "selfhosted" | "mock";
+
+export type SequenceFold = { ok: true; pdbData: string } | { ok: false; error: string };
+
+/** A service that predicts a structure from a single sequence */
+export interface FoldingProvider {
+  id: FoldingProviderId;
+  /** Shown to users, e.g. "ESMFold" */
+  name: string;
+  /** Longest sequence the provider accepts */
+  maxLength: number;
+  timeoutMs: number;
+  fold(sequence: string, signal: AbortSignal): Promise<SequenceFold>;
+}
+
+/** What the client needs to know about the configured provider */
+export interface FoldingProviderInfo {
+  id: FoldingProviderId;
+  name: string;
+  maxLength: number;
+}
+
+const ESM_ATLAS_URL = "https://api.esmatlas.com/foldSequence/v1/pdb/";
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return parsed > 0 ? parsed : fallback;
+}
+
+function formatTimeout(ms: number): string {
+  return ms % 60000 === 0 ? `${ms / 60000} minute${ms === 60000 ? "" : "s"}` : `${ms / 1000} seconds`;
+}
+
+/**
+ * POST a sequence to an HTTP folding server and read back a PDB. The
+ * sequence is sent as plain text (the ESMFold API convention) or as
+ * `{ "sequence": ... }`; the reply may be PDB text or `{ "pdb": ... }`.
+ */
+async function postSequence(
+  provider: FoldingProvider,
+  url: string,
+  sequence: string,
+  signal: AbortSignal,
+  json = false
+): Promise<SequenceFold> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": json ? "application/json" : "text/plain" },
+      body: json ? JSON.stringify({ sequence }) : sequence,
+      signal: AbortSignal.any([signal, AbortSignal.timeout(provider.timeoutMs)]),
+    });
+
+    // The body is read inside the try: a timeout or cancel can land mid-body
+    if (!response.ok) {
+      return { ok: false, error: await response.text() };
+    }
+    if (response.headers.get("content-type")?.includes("application/json")) {
+      const data = (await response.json()) as { pdb?: unknown } | null;
+      return typeof data?.pdb === "string"
+        ? { ok: true, pdbData: data.pdb }
+        : { ok: false, error: `${provider.name} returned JSON without a "pdb" field` };
+    }
+    return { ok: true, pdbData: await response.text() };
+  } catch (error: unknown) {
+    // Timeouts and cancellation are reported separately from network errors
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      return {
+        ok: false,
+        error: `${provider.name} prediction timed out after ${formatTimeout(provider.timeoutMs)}`,
+      };
+    }
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return { ok: false, error: "Cancelled" };
+    }
+    if (error instanceof SyntaxError) {
+      return { ok: false, error: `${provider.name} returned invalid JSON: ${error.message}` };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ok: false,
+      error: `Failed to connect to ${provider.name}: ${message}. The server may be temporarily unavailable.`,
+    };
+  }
+}
+
+/** The public ESM Atlas API */
+function esmAtlasProvider(): FoldingProvider {
+  const provider: FoldingProvider = {
+    id: "esmatlas",
+    name: "ESMFold",
+    maxLength: 400,
+    timeoutMs: 120000,
+    fold: (sequence, signal) => postSequence(provider, ESM_ATLAS_URL, sequence, signal),
+  };
+  return provider;
+}
+
+/**
+ * A self-hosted ESMFold or ColabFold server. Limits default to what a
+ * single GPU handles comfortably and can be raised for larger cards.
+ */
+function selfHostedProvider(): FoldingProvider {
+  const url = process.env.FOLDING_ENDPOINT;
+  const provider: FoldingProvider = {
+    id: "selfhosted",
+    name: process.env.FOLDING_NAME || "ESMFold (self-hosted)",
+    maxLength: positiveInt(process.env.FOLDING_MAX_LENGTH, 1000),
+    timeoutMs: positiveInt(process.env.FOLDING_TIMEOUT_MS, 600000),
+    fold: async (sequence, signal) => {
+      if (!url) {
+        return { ok: false, error: "FOLDING_ENDPOINT is not set. Add it to .env.local" };
+      }
+      return postSequence(provider, url, sequence, signal, process.env.FOLDING_REQUEST_FORMAT === "json");
+    },
+  };
+  return provider;
+}
+
+const ONE_TO_THREE = Object.fromEntries(
+  Object.entries(THREE_TO_ONE).map(([three, one]) => [one, three.toUpperCase()])
+);
+
+/**
+ * A CA-only ideal helix with a pLDDT derived from the sequence, so the
+ * same sequence always gives the same model.
+ */
+function helixPdb(sequence: string): string {
+  const digest = createHash("sha256").update(sequence).digest();
+  const atoms: Atom[] = [...sequence].map((residue, i) => {
+    const angle = (i * 100 * Math.PI) / 180;
+    return {
+      record: "ATOM",
+      serial: i + 1,
+      name: "CA",
+      altLoc: "",
+      resName: ONE_TO_THREE[residue] ?? "UNK",
+      chain: "A",
+      resSeq: i + 1,
+      iCode: "",
+      x: 2.3 * Math.cos(angle),
+      y: 2.3 * Math.sin(angle),
+      z: 1.5 * i,
+      occupancy: 1,
+      bFactor: 50 + (digest[i % digest.length] % 50),
+      element: "C",
+    };
+  });
+  return atomsToPdb(atoms);
+}
+
+/**
+ * Offline provider for development and demos. It returns the fixture
+ * `<sha256 of sequence>.pdb` from MOCK_FOLD_DIR when there is one, and a
+ * generated helix otherwise. Never use its models for interpretation.
+ */
+function mockProvider(): FoldingProvider {
+  const dir = path.resolve(process.env.MOCK_FOLD_DIR ?? path.join("data", "fixtures", "folds"));
+  return {
+    id: "mock",
+    name: "Mock folding",
+    maxLength: positiveInt(process.env.FOLDING_MAX_LENGTH, 2000),
+    timeoutMs: 1000,
+    fold: async (sequence, signal) => {
+      if (signal.aborted) return { ok: false, error: "Cancelled" };
+      const hash = createHash("sha256").update(sequence).digest("hex");
+      try {
+        return { ok: true, pdbData: await readFile(path.join(dir, `${hash}.pdb`), "utf8") };
+      } catch {
+        return { ok: true, pdbData: helixPdb(sequence) };
+      }
+    },
+  };
+}
+
+/** The provider named by FOLDING_PROVIDER; the public ESM Atlas by default */
+export function getFoldingProvider(): FoldingProvider {
+  switch (process.env.FOLDING_PROVIDER) {
+    case "selfhosted":
+      return selfHostedProvider();
+    case "mock":
+      return mockProvider();
+    default:
+      return esmAtlasProvider();
+  }
+}
+
+export function foldingProviderInfo(provider: FoldingProvider): FoldingProviderInfo {
+  return { id: provider.id, name: provider.name, maxLength: provider.maxLength };
+}
@@ -0,0 +1,39 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FoldInput } from "./esmfold";
+import type { FoldingProvider } from "./folding";
+import { getFoldJob, submitFoldJob } from "./foldjobs";
+
+function input(mutant: string): FoldInput {
+  return { mutant, wildType: null, window: null, mutantSequence: mutant, correctedPositions: [], notes: [] };
+}
+
+describe("submitFoldJob", () => {
+  beforeEach(async () => {
+    vi.stubEnv("FOLD_JOBS_DIR", await mkdtemp(path.join(tmpdir(), "foldjobs-")));
+    return () => vi.unstubAllEnvs();
+  });
+
+  it("joins identical submissions that arrive together into one job", async () => {
+    // The fold stays running until released, so the second submission finds it active
+    let release = () => {};
+    const running = new Promise<void>((resolve) => (release = resolve));
+    const fold = vi.fn<FoldingProvider["fold"]>(async () => {
+      await running;
+      return { ok: false, error: "not folded" };
+    });
+    const provider: FoldingProvider = { id: "mock", name: "Mock", maxLength: 100, timeoutMs: 1000, fold };
+
+    const [first, second] = await Promise.all([
+      submitFoldJob(provider, input("MKTAYIAK")),
+      submitFoldJob(provider, input("MKTAYIAK")),
+    ]);
+    expect(second.id).toBe(first.id);
+    expect(fold).toHaveBeenCalledTimes(1);
+    // Let the job finish and be stored while the jobs directory is still stubbed
+    release();
+    await vi.waitFor(async () => expect((await getFoldJob(first.id))?.status).toBe("failed"));
+  });
+});
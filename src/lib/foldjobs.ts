@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { runFold, type FoldInput, type FoldOutput } from "./esmfold";
+import type { FoldingProvider } from "./folding";
+
+export type FoldJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface FoldJob {
+  id: string;
+  status: FoldJobStatus;
+  /** What the job is doing, e.g. "Folding mutant" */
+  stage: string | null;
+  createdAt: string;
+  updatedAt: string;
+  result: FoldOutput | null;
+  error: string | null;
+}
+
+type Listener = (job: FoldJob) => void;
+
+interface JobEntry {
+  job: FoldJob;
+  input: FoldInput;
+  provider: FoldingProvider;
+  controller: AbortController;
+  listeners: Set<Listener>;
+}
+
+/** Folds sent to the folding provider at once; the rest wait in order */
+const MAX_RUNNING = 2;
+/** Finished jobs kept in memory; older ones are read back from disk */
+const MAX_FINISHED_IN_MEMORY = 20;
+
+const jobs = new Map<string, JobEntry>();
+const queue: JobEntry[] = [];
+let running = 0;
+
+export function getFoldJobsDir(): string {
+  return path.resolve(process.env.FOLD_JOBS_DIR ?? path.join("data", "jobs"));
+}
+
+export function isFinished(status: FoldJobStatus): boolean {
+  return status === "done" || status === "failed" || status === "cancelled";
+}
+
+/**
+ * Jobs are named after what they fold and which provider folds it, so
+ * submitting the same sequences again finds the existing job.
+ */
+function foldJobId(input: FoldInput, provider: FoldingProvider): string {
+  return createHash("sha256")
+    .update([provider.id, input.mutant, input.wildType ?? "", input.window?.start ?? 1].join("\n"))
+    .digest("hex")
+    .substring(0, 16);
+}
+
+/** Job ids are the 16 hex digits `foldJobId` makes; anything else never names a job */
+export function isFoldJobId(id: string): boolean {
+  return /^[0-9a-f]{16}$/.test(id);
+}
+
+function jobFile(id: string): string {
+  return path.join(getFoldJobsDir(), `${id}.json`);
+}
+
+async function readStoredJob(id: string): Promise<FoldJob | null> {
+  // Ids come from the URL, so never let one reach the filesystem unchecked
+  if (!isFoldJobId(id)) return null;
+  try {
+    return JSON.parse(await readFile(jobFile(id), "utf8")) as FoldJob;
+  } catch {
+    return null;
+  }
+}
+
+/** Finished folds are written to disk so a reload or restart keeps them */
+async function storeJob(job: FoldJob): Promise<void> {
+  try {
+    await mkdir(getFoldJobsDir(), { recursive: true });
+    await writeFile(jobFile(job.id), JSON.stringify(job));
+  } catch (error) {
+    console.error(`Could not store fold job ${job.id}:`, error);
+  }
+}
+
+function update(entry: JobEntry, patch: Partial<FoldJob>) {
+  entry.job = { ...entry.job, ...patch, updatedAt: new Date().toISOString() };
+  for (const listener of entry.listeners) listener(entry.job);
+}
+
+/** Forget the oldest finished jobs beyond the in-memory limit */
+function prune() {
+  const finished = [...jobs.values()].filter((e) => isFinished(e.job.status));
+  for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_IN_MEMORY))) {
+    jobs.delete(entry.job.id);
+  }
+}
+
+async function start(entry: JobEntry) {
+  running++;
+  update(entry, { status: "running" });
+  try {
+    const result = await runFold(entry.provider, entry.input, entry.controller.signal, (stage) =>
+      update(entry, { stage })
+    );
+    // A cancelled job has already been marked as such
+    if (entry.job.status === "running") {
+      update(
+        entry,
+        result.ok
+          ? { status: "done", stage: null, result: result.output }
+          : { status: "failed", stage: null, error: result.error }
+      );
+      await storeJob(entry.job);
+    }
+  } catch (error) {
+    // A provider bug must not leave the job, or the queue behind it, stuck
+    if (entry.job.status === "running") {
+      const message = error instanceof Error ? error.message : String(error);
+      update(entry, { status: "failed", stage: null, error: `Fold failed: ${message}` });
+      await storeJob(entry.job);
+    }
+  } finally {
+    running--;
+    entry.listeners.clear();
+    prune();
+    pump();
+  }
+}
+
+function pump() {
+  while (running < MAX_RUNNING && queue.length > 0) {
+    void start(queue.shift()!);
+  }
+}
+
+/** Failed and cancelled jobs are folded again; any other job is joined */
+function isReusable(job: FoldJob): boolean {
+  return job.status !== "failed" && job.status !== "cancelled";
+}
+
+/**
+ * Queue a fold with `provider`, or join the job already folding (or done
+ * folding) the same sequences with it. Failed and cancelled jobs are started again.
+ */
+export async function submitFoldJob(provider: FoldingProvider, input: FoldInput): Promise<FoldJob> {
+  const id = foldJobId(input, provider);
+  const existing = jobs.get(id)?.job ?? (await readStoredJob(id));
+  if (existing && isReusable(existing)) return existing;
+  // An identical submission may have queued the fold while the disk was read
+  const joined = jobs.get(id)?.job;
+  if (joined && isReusable(joined)) return joined;
+
+  const now = new Date().toISOString();
+  const entry: JobEntry = {
+    job: {
+      id,
+      status: "queued",
+      stage: null,
+      createdAt: now,
+      updatedAt: now,
+      result: null,
+      error: null,
+    },
+    input,
+    provider,
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+  jobs.set(id, entry);
+  queue.push(entry);
+  pump();
+  return entry.job;
+}
+
+export async function getFoldJob(id: string): Promise<FoldJob | null> {
+  return jobs.get(id)?.job ?? (await readStoredJob(id));
+}
+
+/** Cancel a queued or running job; finished jobs are returned unchanged */
+export function cancelFoldJob(id: string): FoldJob | null {
+  const entry = jobs.get(id);
+  if (!entry) return null;
+  if (isFinished(entry.job.status)) return entry.job;
+
+  const queued = queue.indexOf(entry);
+  if (queued >= 0) queue.splice(queued, 1);
+  entry.controller.abort();
+  update(entry, { status: "cancelled", stage: null });
+  entry.listeners.clear();
+  return entry.job;
+}
+
+/**
+ * Call `listener` on every change of a queued or running job. Returns an
+ * unsubscribe function, or null when the job is not active in this process.
+ */
+export function subscribeFoldJob(id: string, listener: Listener): (() => void) | null {
+  const entry = jobs.get(id);
+  if (!entry || isFinished(entry.job.status)) return null;
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+}
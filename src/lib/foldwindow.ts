@@ -0,0 +1,73 @@
+import { applyVariants, shiftVariant, type ResidueSpan, type VariantChange } from "./variant";
+
+/** A stretch of the full-length sequence folded on its own */
+export interface FoldWindow extends ResidueSpan {
+  /** "domain" when the window follows UniProt domain boundaries */
+  source: "domain" | "centered";
+  /** Domains the window was built from */
+  domains: string[];
+}
+
+interface DomainBounds {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/** Residues added on each side of a domain, whose annotated edges are approximate */
+const DOMAIN_FLANK = 15;
+
+/** Wild-type and mutant sequences of a window, with the changes in window numbering */
+export function windowSequences(
+  sequence: string,
+  changes: VariantChange[],
+  window: ResidueSpan
+): { wildType: string; mutant: string } {
+  const wildType = sequence.substring(window.start - 1, window.end);
+  const mutant = applyVariants(
+    wildType,
+    changes.map((c) => shiftVariant(c, c.position - window.start + 1))
+  );
+  return { wildType, mutant };
+}
+
+/**
+ * Choose a window of the wild-type sequence to fold around the changes,
+ * so that neither the wild-type nor the mutant window exceeds `maxLength`.
+ * The domains holding the sites (plus a short flank) are used when they
+ * fit; otherwise the widest window centred on the sites. Returns null
+ * when even the sites alone do not fit.
+ */
+export function chooseFoldWindow(
+  sequence: string,
+  changes: VariantChange[],
+  domains: DomainBounds[],
+  maxLength: number
+): FoldWindow | null {
+  const sites: ResidueSpan = {
+    start: Math.min(...changes.map((c) => c.position)),
+    end: Math.min(sequence.length, Math.max(...changes.map((c) => c.end))),
+  };
+  const siteLength = sites.end - sites.start + 1;
+
+  // Residues the variant adds, which come out of the window's budget
+  const gain = Math.max(0, windowSequences(sequence, changes, sites).mutant.length - siteLength);
+  const budget = maxLength - gain;
+  if (siteLength > budget) return null;
+
+  const hit = domains.filter((d) =>
+    changes.some((c) => c.position <= d.end && c.end >= d.start)
+  );
+  if (hit.length > 0) {
+    const start = Math.max(1, Math.min(sites.start, ...hit.map((d) => d.start)) - DOMAIN_FLANK);
+    const end = Math.min(sequence.length, Math.max(sites.end, ...hit.map((d) => d.end)) + DOMAIN_FLANK);
+    if (end - start + 1 <= budget) {
+      return { start, end, source: "domain", domains: hit.map((d) => d.name) };
+    }
+  }
+
+  const length = Math.min(budget, sequence.length);
+  const centred = sites.start - Math.floor((length - siteLength) / 2);
+  const start = Math.min(Math.max(1, centred), sequence.length - length + 1);
+  return { start, end: start + length - 1, source: "centered", domains: [] };
+}
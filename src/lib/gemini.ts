@@ -1,3 +1,6 @@
+import type { TextStreamResult } from "./llm";
+import { readSseEvents } from "./sse";
+
 export function getGeminiApiKey(): string {
   const key = process.env.GEMINI_API_KEY;
   if (!key || key === "your-gemini-api-key-here") {
@@ -10,3 +13,46 @@ export function getGeminiApiKey(): string {
 
 export const GEMINI_BASE_URL =
   "https://generativelanguage.googleapis.com/v1beta";
+
+export const GEMINI_DEFAULT_MODEL = "gemini-2.0-flash";
+
+/** The part of a streamed `GenerateContentResponse` chunk that carries text */
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+/**
+ * Start a streamed generation. The request is sent before returning, so
+ * API errors are reported up front; the text then arrives chunk by chunk.
+ * Aborting `signal` stops the generation upstream.
+ */
+export async function streamGeminiText(
+  prompt: string,
+  model: string,
+  signal: AbortSignal
+): Promise<TextStreamResult> {
+  const url = `${GEMINI_BASE_URL}/models/${model}:streamGenerateContent?alt=sse&key=${getGeminiApiKey()}`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    return {
+      ok: false,
+      error: `Gemini API error (${response.status}): ${await response.text()}`,
+    };
+  }
+
+  const body = response.body;
+  async function* tokens(): AsyncGenerator<string> {
+    for await (const { data } of readSseEvents(body)) {
+      const chunk = JSON.parse(data) as GeminiChunk;
+      const text = chunk.candidates?.[0]?.content?.parts?.map((p) => p.text ?? "").join("");
+      if (text) yield text;
+    }
+  }
+  return { ok: true, tokens: tokens() };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parseMutation, parseMutations } from "./hgvs";
+
+describe("parseMutation insertions", () => {
+  it.each([
+    ["EGFR Asp770_Asn771insGlySer", "GS"],
+    ["EGFR D770_N771insGS", "GS"],
+    ["EGFR Asp770_Asn771delinsGlyTrp", "GW"],
+    // An all-uppercase run takes the code style of the site
+    ["EGFR D770_N771insGLY", "GLY"],
+    ["EGFR D770_N771insGLYS", "GLYS"],
+    ["EGFR ASP770_ASN771insGLY", "G"],
+    ["EGFR ASP770_ASN771insGLYSER", "GS"],
+  ])("reads %s", (input, residues) => {
+    const result = parseMutation(input);
+    expect(result.ok && result.mutation.mutant).toBe(residues);
+  });
+
+  it.each([
+    ["EGFR D770_N771insGlySer", "GlySer"],
+    ["EGFR D770_N771insGlyS", "GlyS"],
+    ["EGFR Asp770_Asn771insGlyS", "GlyS"],
+    ["EGFR Asp770_Asn771insGS", "GS"],
+    ["EGFR ASP770_ASN771insGLYS", "GLYS"],
+    ["EGFR Asp770_Asn771delinsGlyW", "GlyW"],
+  ])("rejects %s, whose inserted residues do not match the site's code style", (input, run) => {
+    const result = parseMutation(input);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.index).toBe(input.indexOf(run));
+    expect(result.error).toMatch(/must be (three|one)-letter codes .* like the rest of the change/);
+  });
+});
+
+describe("parseMutation code styles", () => {
+  it.each(["TP53 Arg175His", "TP53 R175H", "TP53 ARG175HIS", "TP53 Arg175*", "TP53 R175*", "TP53 R175X", "TP53 Arg175Ter"])(
+    "reads %s",
+    (input) => {
+      expect(parseMutation(input).ok).toBe(true);
+    }
+  );
+
+  it.each([
+    ["TP53 Arg175H", "H"],
+    ["TP53 R175His", "His"],
+    ["TP53 R175Ter", "Ter"],
+    ["TP53 Arg175Pfs*12", "Pfs"],
+    ["EGFR Glu746_A750del", "A750"],
+  ])("rejects %s, which mixes three- and one-letter codes", (input, fragment) => {
+    const result = parseMutation(input);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.index).toBe(input.indexOf(fragment));
+    expect(result.error).toMatch(/three-letter codes .* or one-letter codes .* throughout a change, not both/);
+  });
+});
+
+describe("parseMutations overlaps", () => {
+  it.each(["EGFR D770_N771insG+N771K", "EGFR D770E+D770_N771insG", "EGFR p.[Asp770_Asn771insGly;Asn771Lys]"])(
+    "accepts %s, since an insertion replaces neither flanking residue",
+    (input) => {
+      const result = parseMutations(input);
+      expect(result.ok && result.mutations.map((m) => m.type)).toEqual(
+        expect.arrayContaining(["insertion"])
+      );
+    }
+  );
+
+  it.each([
+    ["EGFR D770_N771insG+D770_N771insS", "D770_N771insS"],
+    ["EGFR D770_N771del+D770_N771insG", "D770_N771insG"],
+    ["EGFR D770_N771insG+D770_N771delinsS", "D770_N771insG"],
+  ])("rejects %s as overlapping", (input, second) => {
+    const result = parseMutations(input);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatch(/^Change overlaps/);
+    expect(result.index).toBe(input.indexOf(second));
+  });
+});
@@ -0,0 +1,498 @@
+export type VariantType =
+  | "missense"
+  | "synonymous"
+  | "nonsense"
+  | "deletion"
+  | "insertion"
+  | "delins"
+  | "frameshift";
+
+export interface ParsedMutation {
+  /** Gene symbol, or a UniProt accession / isoform ID such as P04637-2 */
+  gene: string;
+  type: VariantType;
+  /** Reference residue at the first affected position */
+  original: string;
+  /** First affected residue (1-indexed) */
+  position: number;
+  /** Reference residue at the last affected position */
+  endOriginal: string;
+  /** Last affected residue; equals `position` for single-residue changes */
+  end: number;
+  /**
+   * New residues in one-letter code: the substituted residue for missense,
+   * the unchanged residue for synonymous, "*" for nonsense, the inserted residues for ins/delins, the first
+   * changed residue (or "") for frameshifts and "" for deletions.
+   */
+  mutant: string;
+  /** Reference transcript/protein accession, e.g. NM_000546.6 */
+  transcript: string | null;
+  /** True for predicted consequences written as p.(...) */
+  predicted: boolean;
+}
+
+/** The parts of a parsed mutation that describe the change itself */
+export type VariantChange = Pick<
+  ParsedMutation,
+  "type" | "original" | "position" | "endOriginal" | "end" | "mutant"
+>;
+
+export type ParseResult =
+  | { ok: true; mutation: ParsedMutation }
+  | { ok: false; error: string; index: number };
+
+/** Three-letter IUPAC amino acid codes mapped to one-letter codes */
+export const THREE_TO_ONE: Record<string, string> = {
+  Ala: "A", Arg: "R", Asn: "N", Asp: "D", Cys: "C",
+  Gln: "Q", Glu: "E", Gly: "G", His: "H", Ile: "I",
+  Leu: "L", Lys: "K", Met: "M", Phe: "F", Pro: "P",
+  Ser: "S", Thr: "T", Trp: "W", Tyr: "Y", Val: "V",
+};
+
+const ONE_LETTER_CODES = new Set(Object.values(THREE_TO_ONE));
+
+/** Stop codon spellings accepted in the variant position */
+const STOP_CODES = new Set(["*", "X", "Ter"]);
+
+/** Matches `NM_000546.6(TP53)` style transcript-qualified references */
+const TRANSCRIPT_WITH_GENE = /^([A-Za-z]{2,4}_?\d+(?:\.\d+)?)\(([A-Za-z][A-Za-z0-9-]*)\)/;
+
+/** Matches a bare accession such as NM_000546.6 or ENST00000269305 */
+const BARE_ACCESSION = /^(?:[A-Z]{2}_\d+|ENS[A-Z]*\d{6,})(?:\.\d+)?$/;
+
+const GENE_SYMBOL = /^[A-Za-z][A-Za-z0-9-]*/;
+
+/** `fs`, `Pfs`, `ProfsTer12`, `Pfs*12`, `fsX?` */
+const FRAMESHIFT = /^([A-Za-z]{3}|[A-Za-z])?fs(?:(?:\*|Ter|X)(?:\d+|\?))?/i;
+
+function normalizeThree(code: string): string {
+  return code.charAt(0).toUpperCase() + code.substring(1).toLowerCase();
+}
+
+/** Convert a single one- or three-letter amino acid to its one-letter code */
+function toOneLetter(code: string): string | null {
+  if (code.length === 3) return THREE_TO_ONE[normalizeThree(code)] ?? null;
+  const one = code.toUpperCase();
+  return ONE_LETTER_CODES.has(one) ? one : null;
+}
+
+/**
+ * Read one amino acid at `index`. A letter followed by another letter is
+ * taken as a three-letter code (`Arg`), otherwise as a one-letter code
+ * (`R`). Returns the one-letter code and how many characters were consumed.
+ */
+function readAminoAcid(
+  text: string,
+  index: number
+): { code: string; length: number } | null {
+  if (/[A-Za-z]/.test(text.charAt(index + 1))) {
+    const code = toOneLetter(text.substring(index, index + 3));
+    return code ? { code, length: 3 } : null;
+  }
+  const code = toOneLetter(text.charAt(index));
+  return code ? { code, length: 1 } : null;
+}
+
+/** Whether a change is written in three-letter (`Arg`) or one-letter (`R`) codes */
+type CodeStyle = "three" | "one";
+
+const MIXED_CODES =
+  "Use three-letter codes (e.g. Arg175His) or one-letter codes (e.g. R175H) throughout a change, not both";
+
+/**
+ * Read a run of inserted residues (`GlySer` or `GS`) after `keyword`, in
+ * the code style of the residue that names the site. An all-uppercase run
+ * is ambiguous (`GLY` could be one-letter G, L, Y), so it is always read in
+ * that style: Gly after `ASP770_ASN771ins`, G, L, Y after `D770_N771ins`.
+ * A run with lowercase letters can only be three-letter codes.
+ */
+function readResidueRun(
+  text: string,
+  index: number,
+  keyword: string,
+  style: CodeStyle
+): { ok: true; residues: string; length: number } | { ok: false; reason: string } {
+  const run = text.substring(index).match(/^[A-Za-z]+/)?.[0];
+  if (!run) return { ok: false, reason: `Expected the inserted residues after "${keyword}"` };
+
+  if (style === "three" && run.length % 3 === 0) {
+    const codes = (run.match(/.{3}/g) ?? []).map((c) => THREE_TO_ONE[normalizeThree(c)]);
+    if (codes.every(Boolean)) {
+      return { ok: true, residues: codes.join(""), length: run.length };
+    }
+  }
+  if (style === "one" && [...run].every((c) => ONE_LETTER_CODES.has(c))) {
+    return { ok: true, residues: run, length: run.length };
+  }
+  const otherStyle =
+    style === "three"
+      ? [...run.toUpperCase()].every((c) => ONE_LETTER_CODES.has(c))
+      : run !== run.toUpperCase() || THREE_TO_ONE[normalizeThree(run.substring(0, 3))] !== undefined;
+  if (otherStyle) {
+    return {
+      ok: false,
+      reason:
+        style === "three"
+          ? `The residues after "${keyword}" must be three-letter codes (e.g. GlySer) like the rest of the change`
+          : `The residues after "${keyword}" must be one-letter codes (e.g. GS) like the rest of the change`,
+    };
+  }
+  return { ok: false, reason: `Expected the inserted residues after "${keyword}"` };
+}
+
+/**
+ * The reference residues a change occupies. An insertion replaces neither
+ * flanking residue, so it takes up only the gap between them and does not
+ * overlap a change to either flank (`D770_N771insG+N771K`).
+ */
+function occupiedSpan(change: VariantChange): { first: number; last: number } {
+  if (change.type === "insertion") {
+    const gap = change.position + 0.5;
+    return { first: gap, last: gap };
+  }
+  return { first: change.position, last: change.end };
+}
+
+type ParseFailure = Extract<ParseResult, { ok: false }>;
+
+export type MultiParseResult =
+  | { ok: true; mutations: ParsedMutation[] }
+  | ParseFailure;
+
+/** Describe the unparsable fragment so the user can see what went wrong */
+function fail(text: string, index: number, reason: string): ParseFailure {
+  const fragment = text.substring(index) || "end of input";
+  return {
+    ok: false,
+    index,
+    error: `${reason} at "${fragment}" (column ${index + 1} of "${text}").`,
+  };
+}
+
+interface ParsedChange {
+  change: VariantChange;
+  predicted: boolean;
+  /** Where the change starts and ends in the input */
+  start: number;
+  index: number;
+}
+
+/**
+ * Parse one change (`Arg175His`, `p.(E746_A750del)`) starting at `start`.
+ * Stops at the first character that cannot belong to the change.
+ */
+function parseChange(text: string, start: number): ParsedChange | ParseFailure {
+  let i = start;
+
+  // Optional "p." coordinate prefix
+  const prefix = text.substring(i, i + 2).toLowerCase();
+  if (prefix === "p.") {
+    i += 2;
+  } else if (/^[cgnmr]\.$/.test(prefix)) {
+    return fail(
+      text,
+      i,
+      `Only protein-level (p.) changes are supported, got "${prefix}"`
+    );
+  }
+
+  // Optional predicted-change parentheses
+  let predicted = false;
+  if (text.charAt(i) === "(") {
+    predicted = true;
+    i += 1;
+  }
+
+  // First reference residue and position
+  const original = readAminoAcid(text, i);
+  if (!original) {
+    return fail(text, i, "Unknown reference amino acid");
+  }
+  const style: CodeStyle = original.length === 3 ? "three" : "one";
+  i += original.length;
+
+  const digits = text.substring(i).match(/^\d+/);
+  if (!digits) {
+    return fail(text, i, "Expected a residue position");
+  }
+  const position = parseInt(digits[0], 10);
+  if (position < 1) {
+    return fail(text, i, "Residue position must be 1 or greater");
+  }
+  i += digits[0].length;
+
+  // Optional range end: _Ala750
+  let endOriginal = original.code;
+  let end = position;
+  const isRange = text.charAt(i) === "_";
+  if (isRange) {
+    i += 1;
+    const endResidue = readAminoAcid(text, i);
+    if (!endResidue) {
+      return fail(text, i, "Unknown amino acid at the end of the range");
+    }
+    if (endResidue.length !== original.length) {
+      return fail(text, i, MIXED_CODES);
+    }
+    i += endResidue.length;
+    const endDigits = text.substring(i).match(/^\d+/);
+    if (!endDigits) {
+      return fail(text, i, "Expected the position ending the range");
+    }
+    end = parseInt(endDigits[0], 10);
+    if (end <= position) {
+      return fail(text, i, "Range end must come after its start");
+    }
+    endOriginal = endResidue.code;
+    i += endDigits[0].length;
+  }
+
+  // Change: delins, del, ins, fs or a substituted residue
+  let type: VariantType;
+  let mutant = "";
+  const rest = text.substring(i);
+
+  if (/^delins/i.test(rest)) {
+    i += 6;
+    const run = readResidueRun(text, i, "delins", style);
+    if (!run.ok) {
+      return fail(text, i, run.reason);
+    }
+    type = "delins";
+    mutant = run.residues;
+    i += run.length;
+  } else if (/^del/i.test(rest)) {
+    type = "deletion";
+    i += 3;
+  } else if (/^ins/i.test(rest)) {
+    if (!isRange || end !== position + 1) {
+      return fail(
+        text,
+        i,
+        "An insertion must name the two flanking residues (e.g. D770_N771insG)"
+      );
+    }
+    i += 3;
+    const run = readResidueRun(text, i, "ins", style);
+    if (!run.ok) {
+      return fail(text, i, run.reason);
+    }
+    type = "insertion";
+    mutant = run.residues;
+    i += run.length;
+  } else if (isRange) {
+    return fail(text, i, "Expected \"del\", \"ins\" or \"delins\" after a range");
+  } else if (rest.startsWith("=")) {
+    type = "synonymous";
+    mutant = original.code;
+    i += 1;
+  } else if (FRAMESHIFT.test(rest)) {
+    const shift = rest.match(FRAMESHIFT)!;
+    if (shift[1]) {
+      if (shift[1].length !== original.length) {
+        return fail(text, i, MIXED_CODES);
+      }
+      const first = toOneLetter(shift[1]);
+      if (!first) {
+        return fail(text, i, "Unknown amino acid before \"fs\"");
+      }
+      mutant = first;
+    }
+    type = "frameshift";
+    i += shift[0].length;
+  } else {
+    const stop = rest.match(/^(\*|Ter|X)(?![A-Za-z])/i);
+    if (stop && STOP_CODES.has(normalizeThree(stop[1]))) {
+      // "*" and "X" go with either style; "Ter" is three-letter only
+      if (stop[1].length === 3 && style === "one") {
+        return fail(text, i, MIXED_CODES);
+      }
+      type = "nonsense";
+      mutant = "*";
+      i += stop[1].length;
+    } else {
+      const residue = readAminoAcid(text, i);
+      if (!residue) {
+        return fail(text, i, "Unknown variant amino acid");
+      }
+      if (residue.length !== original.length) {
+        return fail(text, i, MIXED_CODES);
+      }
+      type = "missense";
+      mutant = residue.code;
+      i += residue.length;
+    }
+  }
+
+  if (predicted) {
+    if (text.charAt(i) !== ")") {
+      return fail(text, i, "Expected \")\" to close the predicted change");
+    }
+    i += 1;
+  }
+
+  return {
+    change: {
+      type,
+      original: original.code,
+      position,
+      endOriginal,
+      end,
+      mutant,
+    },
+    predicted,
+    start,
+    index: i,
+  };
+}
+
+/**
+ * Parse a protein-level variant with one or more changes. Accepts the
+ * short form (`TP53 R175H`) and HGVS protein notation with one- or
+ * three-letter codes, an optional `p.` prefix, predicted-change
+ * parentheses and a transcript prefix:
+ *
+ *   TP53 Arg175His
+ *   NM_000546.6(TP53):p.(Arg175His)
+ *   TP53 R213*            TP53 Arg213Ter        TP53 R175=
+ *   EGFR E746_A750del     EGFR D770_N771insG
+ *   EGFR E746_A750delinsQ BRCA1 Q1756Pfs*74
+ *
+ * Compound variants on one protein are joined with "+", "/" or written
+ * as an HGVS allele: `EGFR L858R+T790M`, `EGFR p.[Leu858Arg;Thr790Met]`.
+ */
+export function parseMutations(input: string): MultiParseResult {
+  const text = input.trim();
+  if (!text) {
+    return { ok: false, index: 0, error: "Please enter a mutation." };
+  }
+
+  let i = 0;
+  let gene: string;
+  let transcript: string | null = null;
+
+  // 1. Reference: GENE or TRANSCRIPT(GENE)
+  const qualified = text.match(TRANSCRIPT_WITH_GENE);
+  if (qualified) {
+    transcript = qualified[1];
+    gene = qualified[2];
+    i = qualified[0].length;
+  } else {
+    const token = text.substring(0, text.search(/[\s:]|$/));
+    if (BARE_ACCESSION.test(token)) {
+      return fail(
+        text,
+        0,
+        `Transcript accession has no gene symbol; write it as ${token}(GENE)`
+      );
+    }
+    const symbol = text.match(GENE_SYMBOL);
+    if (!symbol) {
+      return fail(text, 0, "Expected a gene symbol");
+    }
+    gene = symbol[0];
+    i = symbol[0].length;
+  }
+
+  // 2. Separator between reference and change: ":" or whitespace
+  const separator = text.substring(i).match(/^\s*:\s*|^\s+/);
+  if (!separator) {
+    return fail(text, i, "Expected \":\" or a space after the gene symbol");
+  }
+  i += separator[0].length;
+
+  // 3. Optional HGVS allele brackets: p.[change;change]
+  const bracketed = text.substring(i, i + 3).toLowerCase() === "p.[";
+  if (bracketed) i += 3;
+
+  // 4. One or more changes
+  const changes: ParsedChange[] = [];
+  for (;;) {
+    const parsed = parseChange(text, i);
+    if (!("change" in parsed)) return parsed;
+    changes.push(parsed);
+    i = parsed.index;
+
+    const next = text
+      .substring(i)
+      .match(bracketed ? /^\s*;\s*/ : /^\s*[+/;]\s*/);
+    if (!next) break;
+    i += next[0].length;
+  }
+
+  if (bracketed) {
+    if (text.charAt(i) !== "]") {
+      return fail(text, i, "Expected \"]\" to close the allele");
+    }
+    i += 1;
+  }
+
+  if (i < text.length) {
+    return fail(text, i, "Unexpected trailing characters");
+  }
+
+  // 5. Changes must not overlap, and nothing can follow a truncation
+  const ordered = [...changes].sort(
+    (a, b) => occupiedSpan(a.change).first - occupiedSpan(b.change).first
+  );
+  for (let k = 1; k < ordered.length; k++) {
+    const prev = ordered[k - 1].change;
+    const curr = ordered[k];
+    if (occupiedSpan(curr.change).first <= occupiedSpan(prev).last) {
+      return fail(text, curr.start, `Change overlaps ${formatMutation(prev)}`);
+    }
+    if (prev.type === "nonsense" || prev.type === "frameshift") {
+      return fail(
+        text,
+        curr.start,
+        `Change lies after the truncation ${formatMutation(prev)}`
+      );
+    }
+  }
+
+  return {
+    ok: true,
+    mutations: changes.map(({ change, predicted }) => ({
+      gene: gene.toUpperCase(),
+      ...change,
+      transcript,
+      predicted,
+    })),
+  };
+}
+
+/** Parse a variant that must consist of exactly one change */
+export function parseMutation(input: string): ParseResult {
+  const result = parseMutations(input);
+  if (!result.ok) return result;
+  if (result.mutations.length > 1) {
+    return {
+      ok: false,
+      index: 0,
+      error: `Expected a single change but found ${result.mutations.length}.`,
+    };
+  }
+  return { ok: true, mutation: result.mutations[0] };
+}
+
+/** Short one-letter notation used for display and annotation keys */
+export function formatMutation(m: VariantChange): string {
+  const start = `${m.original}${m.position}`;
+  const span = m.end !== m.position ? `${start}_${m.endOriginal}${m.end}` : start;
+  switch (m.type) {
+    case "missense":
+      return `${start}${m.mutant}`;
+    case "synonymous":
+      return `${start}=`;
+    case "nonsense":
+      return `${start}*`;
+    case "deletion":
+      return `${span}del`;
+    case "insertion":
+      return `${span}ins${m.mutant}`;
+    case "delins":
+      return `${span}delins${m.mutant}`;
+    case "frameshift":
+      return `${start}${m.mutant}fs`;
+  }
+}
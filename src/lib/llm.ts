@@ -0,0 +1,133 @@
+import { createHash } from "node:crypto";
+import { GEMINI_DEFAULT_MODEL, streamGeminiText } from "./gemini";
+import { readSseEvents } from "./sse";
+
+export type LlmProviderId = "gemini" | "openai" | "stub";
+
+/**
+ * A started generation: the request has been accepted and the text
+ * arrives chunk by chunk, or it was refused before any text.
+ */
+export type TextStreamResult =
+  | { ok: true; tokens: AsyncGenerator<string> }
+  | { ok: false; error: string };
+
+/** A language model that turns a prompt into streamed text */
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** Shown to users, e.g. "Gemini" */
+  name: string;
+  model: string;
+  /** Aborting `signal` stops the generation upstream */
+  stream(prompt: string, signal: AbortSignal): Promise<TextStreamResult>;
+}
+
+function geminiProvider(): LlmProvider {
+  const model = process.env.LLM_MODEL || GEMINI_DEFAULT_MODEL;
+  return {
+    id: "gemini",
+    name: "Gemini",
+    model,
+    stream: (prompt, signal) => streamGeminiText(prompt, model, signal),
+  };
+}
+
+/** The part of a streamed chat completion chunk that carries text */
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API, such as a local
+ * llama.cpp, vLLM or Ollama server, so variant data can stay on site.
+ */
+function openAiCompatibleProvider(): LlmProvider {
+  const baseUrl = process.env.LLM_BASE_URL?.replace(/\/+$/, "");
+  const model = process.env.LLM_MODEL ?? "";
+  const apiKey = process.env.LLM_API_KEY;
+  const name = process.env.LLM_NAME || "OpenAI-compatible";
+
+  return {
+    id: "openai",
+    name,
+    model,
+    stream: async (prompt, signal) => {
+      if (!baseUrl || !model) {
+        return { ok: false, error: "LLM_BASE_URL and LLM_MODEL must be set. Add them to .env.local" };
+      }
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: "user", content: prompt }],
+          stream: true,
+        }),
+        signal,
+      });
+
+      if (!response.ok || !response.body) {
+        return {
+          ok: false,
+          error: `${name} API error (${response.status}): ${await response.text()}`,
+        };
+      }
+
+      const body = response.body;
+      async function* tokens(): AsyncGenerator<string> {
+        for await (const { data } of readSseEvents(body)) {
+          if (data === "[DONE]") return;
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+      return { ok: true, tokens: tokens() };
+    },
+  };
+}
+
+/**
+ * Offline provider for development and tests. Nothing is sent anywhere;
+ * the reply is a fixed explanation in the JSON shape /api/explain asks
+ * for, naming a fingerprint of the prompt so the same prompt always gives
+ * the same text.
+ */
+function stubProvider(): LlmProvider {
+  return {
+    id: "stub",
+    name: "Stub",
+    model: "stub",
+    stream: async (prompt, signal) => {
+      const fingerprint = createHash("sha256").update(prompt).digest("hex").substring(0, 8);
+      const reply = JSON.stringify({
+        summary: `Stub explanation for prompt ${fingerprint}. No language model was called.`,
+        claims: [],
+        uncertainty: "No model was run, so this reply establishes nothing about the variant.",
+      });
+      const words = reply.split(" ");
+      async function* tokens(): AsyncGenerator<string> {
+        for (const [i, word] of words.entries()) {
+          if (signal.aborted) return;
+          yield i === 0 ? word : ` ${word}`;
+        }
+      }
+      return { ok: true, tokens: tokens() };
+    },
+  };
+}
+
+/** The provider named by LLM_PROVIDER; Gemini by default */
+export function getLlmProvider(): LlmProvider {
+  switch (process.env.LLM_PROVIDER) {
+    case "openai":
+      return openAiCompatibleProvider();
+    case "stub":
+      return stubProvider();
+    default:
+      return geminiProvider();
+  }
+}
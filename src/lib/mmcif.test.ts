@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseMmcifAtoms } from "./mmcif";
+import { parseStructure, polymerChain, residueBFactors } from "./structure";
+
+/**
+ * Two models of two chains. Author numbering starts at 101 while the
+ * entity sequence starts at 1; residue 102A is inserted, 103 has two
+ * conformers and 104 is a selenomethionine.
+ */
+const CIF = `data_TEST
+#
+_entry.id TEST
+#
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_alt_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_seq_id
+_atom_site.pdbx_PDB_ins_code
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.occupancy
+_atom_site.B_iso_or_equiv
+_atom_site.auth_seq_id
+_atom_site.auth_comp_id
+_atom_site.auth_asym_id
+_atom_site.auth_atom_id
+_atom_site.pdbx_PDB_model_num
+ATOM   1  C  CA  . MET A 1 ? 1.0 0.0 0.0 1.00 90.0 101  MET H CA  1
+ATOM   2  C  CA  . GLY A 2 ? 2.0 0.0 0.0 1.00 80.0 102  GLY H CA  1
+ATOM   3  C  CA  . SER A 3 A 3.0 0.0 0.0 1.00 10.0 102  SER H CA  1
+ATOM   4  C  CA  A LEU A 4 ? 4.0 0.0 0.0 0.60 70.0 103  LEU H CA  1
+ATOM   5  C  CA  B LEU A 4 ? 9.0 9.0 9.0 0.40 20.0 103  LEU H CA  1
+HETATM 6  C  CA  . MSE A 5 ? 5.0 0.0 0.0 1.00 60.0 104  MSE H CA  1
+HETATM 7  SE SE  . MSE A 5 ? 5.0 1.0 0.0 1.00 60.0 104  MSE H SE  1
+ATOM   8  C  CA  . ALA B 1 ? 6.0 0.0 0.0 1.00 50.0 1    ALA L CA  1
+HETATM 9  ZN ZN  . ZN  C . ? 7.0 0.0 0.0 1.00 30.0 301  ZN  L ZN  1
+HETATM 10 O  O   . HOH D . ? 8.0 0.0 0.0 1.00 30.0 401  HOH L O   1
+ATOM   11 C  CA  . MET A 1 ? 99.0 0.0 0.0 1.00 90.0 101 MET H CA  2
+#
+`;
+
+describe("parseMmcifAtoms", () => {
+  const atoms = parseMmcifAtoms(CIF);
+
+  it("keeps only the first model", () => {
+    expect(atoms).toHaveLength(10);
+    expect(atoms.every((a) => a.model === 1)).toBe(true);
+  });
+
+  it("prefers author chain IDs and numbering, keeping the entity index", () => {
+    expect(atoms[0]).toMatchObject({ chain: "H", resSeq: 101, labelSeq: 1 });
+    expect(atoms[7]).toMatchObject({ chain: "L", resSeq: 1, labelSeq: 1 });
+  });
+
+  it("reads insertion codes and alternate locations, with ? and . as empty", () => {
+    expect(atoms[1].iCode).toBe("");
+    expect(atoms[2]).toMatchObject({ resSeq: 102, iCode: "A" });
+    expect(atoms[3]).toMatchObject({ altLoc: "A", occupancy: 0.6 });
+    expect(atoms[0].altLoc).toBe("");
+  });
+
+  it("reads HETATM records, with no entity index for ligands and water", () => {
+    expect(atoms[5]).toMatchObject({ record: "HETATM", resName: "MSE", labelSeq: 5 });
+    expect(atoms[8]).toMatchObject({ record: "HETATM", resName: "ZN", element: "ZN", labelSeq: null });
+  });
+
+  it("keeps quoted values with spaces together", () => {
+    const quoted = CIF.replace("ATOM   1  C  CA  .", `ATOM   1  C  "C A" .`);
+    expect(parseMmcifAtoms(quoted)[0]).toMatchObject({ name: "CA", resSeq: 101, x: 1 });
+  });
+});
+
+describe("parseStructure on mmCIF", () => {
+  const structure = parseStructure(CIF);
+
+  it("groups residues like the PDB parser", () => {
+    expect(structure.chains.map((c) => c.id)).toEqual(["H", "L"]);
+    const heavy = polymerChain(structure)!;
+    expect(heavy.residues.map((r) => `${r.resSeq}${r.iCode}`)).toEqual(["101", "102", "102A", "103", "104"]);
+    expect(heavy.residues.find((r) => r.resSeq === 103)!.atoms).toHaveLength(1);
+    expect(heavy.residues.find((r) => r.resName === "MSE")!.polymer).toBe(true);
+  });
+
+  it("gives per-residue values by author number for the chosen chain", () => {
+    const plddt = residueBFactors(structure, "H");
+    expect([...plddt.entries()]).toEqual([
+      [101, 90],
+      [102, 80],
+      [103, 70],
+      [104, 60],
+    ]);
+    expect(polymerChain(structure, "L")!.residues.filter((r) => !r.polymer).map((r) => r.resName)).toEqual([
+      "ZN",
+      "HOH",
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Atom } from "./structure";
+
+/** One row of the mmCIF `_atom_site` loop */
+export interface CifAtom extends Atom {
+  /** Index into the entity sequence (label_seq_id); null for ligands and water */
+  labelSeq: number | null;
+  model: number;
+}
+
+/** Split a data line into tokens, keeping quoted values together */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /'((?:[^']|'(?=\S))*)'|"((?:[^"]|"(?=\S))*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/** "." and "?" mark inapplicable and unknown values */
+function value(token: string | undefined): string {
+  return token === undefined || token === "." || token === "?" ? "" : token;
+}
+
+/**
+ * Parse the `_atom_site` loop of an mmCIF file. Author numbering and
+ * chain IDs are preferred so residues match the PDB-format file; only
+ * the first model is kept.
+ */
+export function parseMmcifAtoms(cif: string): CifAtom[] {
+  const lines = cif.split(/\r?\n/);
+  const atoms: CifAtom[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].trim() !== "loop_" || !lines[i + 1]?.startsWith("_atom_site.")) {
+      i++;
+      continue;
+    }
+
+    // Column headers of the atom_site loop
+    const columns: string[] = [];
+    i++;
+    while (i < lines.length && lines[i].startsWith("_atom_site.")) {
+      columns.push(lines[i].trim().substring("_atom_site.".length));
+      i++;
+    }
+    const col = (name: string) => columns.indexOf(name);
+    const idx = {
+      group: col("group_PDB"),
+      id: col("id"),
+      element: col("type_symbol"),
+      name: col("auth_atom_id") >= 0 ? col("auth_atom_id") : col("label_atom_id"),
+      altLoc: col("label_alt_id"),
+      resName: col("auth_comp_id") >= 0 ? col("auth_comp_id") : col("label_comp_id"),
+      chain: col("auth_asym_id") >= 0 ? col("auth_asym_id") : col("label_asym_id"),
+      resSeq: col("auth_seq_id") >= 0 ? col("auth_seq_id") : col("label_seq_id"),
+      iCode: col("pdbx_PDB_ins_code"),
+      labelSeq: col("label_seq_id"),
+      x: col("Cartn_x"),
+      y: col("Cartn_y"),
+      z: col("Cartn_z"),
+      occupancy: col("occupancy"),
+      bFactor: col("B_iso_or_equiv"),
+      model: col("pdbx_PDB_model_num"),
+    };
+
+    // Rows run until the next category, loop or block
+    let firstModel: number | null = null;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (/^(?:_|loop_|data_|#)/.test(line)) break;
+      i++;
+      const t = tokenize(line);
+      if (t.length < columns.length) continue;
+
+      const model = idx.model >= 0 ? parseInt(t[idx.model], 10) || 1 : 1;
+      firstModel ??= model;
+      if (model !== firstModel) continue;
+
+      atoms.push({
+        record: t[idx.group] === "HETATM" ? "HETATM" : "ATOM",
+        serial: parseInt(t[idx.id], 10),
+        name: value(t[idx.name]),
+        altLoc: value(t[idx.altLoc]),
+        resName: value(t[idx.resName]),
+        chain: value(t[idx.chain]),
+        resSeq: parseInt(t[idx.resSeq], 10),
+        iCode: value(t[idx.iCode]),
+        labelSeq: idx.labelSeq >= 0 && value(t[idx.labelSeq])
+          ? parseInt(t[idx.labelSeq], 10)
+          : null,
+        x: parseFloat(t[idx.x]),
+        y: parseFloat(t[idx.y]),
+        z: parseFloat(t[idx.z]),
+        occupancy: idx.occupancy >= 0 ? parseFloat(t[idx.occupancy]) || 1 : 1,
+        bFactor: idx.bFactor >= 0 ? parseFloat(t[idx.bFactor]) || 0 : 0,
+        element: value(t[idx.element]),
+        model,
+      });
+    }
+  }
+
+  return atoms;
+}
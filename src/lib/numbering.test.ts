@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { VariantChange } from "./hgvs";
+import { alignSequences, mapPosition, reconcileNumbering, type ReferenceProtein } from "./numbering";
+
+/** A deterministic protein-like sequence without long repeats */
+function protein(length: number, seed = 1): string {
+  const residues = "ACDEFGHIKLMNPQRSTVWY";
+  let state = seed;
+  let sequence = "";
+  for (let i = 0; i < length; i++) {
+    state = (state * 48271) % 2147483647;
+    sequence += residues[state % 20];
+  }
+  return sequence;
+}
+
+/** `sequence` with residue `position` (1-indexed) replaced */
+function substitute(sequence: string, position: number, residue: string): string {
+  return sequence.substring(0, position - 1) + residue + sequence.substring(position);
+}
+
+function missense(original: string, position: number, mutant: string): VariantChange {
+  return { type: "missense", original, position, endOriginal: original, end: position, mutant };
+}
+
+describe("alignSequences", () => {
+  it("keeps a substitution paired when the new residue matches its neighbour", () => {
+    // UniProt has K51 P52; the transcript has P51 P52
+    const uniprot = substitute(substitute(protein(120), 51, "K"), 52, "P");
+    const reference = substitute(uniprot, 51, "P");
+
+    const alignment = alignSequences(reference, uniprot)!;
+    expect(alignment.blocks).toEqual([{ referenceStart: 1, targetStart: 1, length: 120 }]);
+    expect(mapPosition(alignment, 51)).toBe(51);
+    expect(mapPosition(alignment, 52)).toBe(52);
+  });
+
+  it("carries numbering across insertions and deletions", () => {
+    const uniprot = protein(300);
+    // The reference lacks UniProt 101-110 and has three extra residues after UniProt 200
+    const reference = uniprot.substring(0, 100) + uniprot.substring(110, 200) + "WWW" + uniprot.substring(200);
+
+    const alignment = alignSequences(reference, uniprot)!;
+    expect(mapPosition(alignment, 100)).toBe(100);
+    expect(mapPosition(alignment, 101)).toBe(111);
+    expect(mapPosition(alignment, 190)).toBe(200);
+    expect(mapPosition(alignment, 191)).toBeNull();
+    expect(mapPosition(alignment, 194)).toBe(201);
+    // The three inserted residues have no partner
+    expect(alignment.identity).toBe(290 / 293);
+  });
+
+  it("rejects unrelated sequences", () => {
+    expect(alignSequences(protein(200, 1), protein(200, 2))).toBeNull();
+  });
+});
+
+describe("reconcileNumbering", () => {
+  it("does not move a transcript site onto a neighbouring residue of the same type", () => {
+    const uniprot = substitute(substitute(protein(120), 51, "K"), 52, "P");
+    const reference: ReferenceProtein = { id: "NM_X", sequence: substitute(uniprot, 51, "P"), named: true };
+
+    const result = reconcileNumbering(uniprot, [missense("P", 51, "L")], reference);
+    expect(result.changes[0].position).toBe(51);
+    expect(result.sites[0].position).toBe(51);
+    expect(result.sites[0].note).toBe(
+      "P51 on NM_X aligns to K51 on UniProt; the two sequences differ at this site."
+    );
+  });
+
+  it("renumbers a transcript site past an upstream deletion", () => {
+    const uniprot = protein(200);
+    const reference: ReferenceProtein = {
+      id: "NM_Y",
+      sequence: uniprot.substring(0, 40) + uniprot.substring(45),
+      named: true,
+    };
+    const original = uniprot[99];
+
+    const result = reconcileNumbering(uniprot, [missense(original, 95, "A")], reference);
+    expect(result.changes[0].position).toBe(100);
+    expect(result.sites[0]).toMatchObject({ method: "alignment", position: 100 });
+    expect(result.sites[0].note).toBe(`${original}95 on NM_Y is ${original}100 on UniProt.`);
+  });
+});
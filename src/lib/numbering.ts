@@ -0,0 +1,345 @@
+import { shiftVariant, type VariantChange } from "./variant";
+
+/** Protein sequence a variant's numbering may come from, e.g. a translated transcript */
+export interface ReferenceProtein {
+  /** Transcript or protein accession */
+  id: string;
+  sequence: string;
+  /** True when the variant named this transcript, rather than it being the gene's CDS */
+  named: boolean;
+}
+
+/** A gap-free stretch of the alignment, 1-indexed on both sequences */
+export interface AlignedBlock {
+  referenceStart: number;
+  targetStart: number;
+  length: number;
+}
+
+export interface SequenceAlignment {
+  blocks: AlignedBlock[];
+  /** Identical residues over the reference length, 0-1 */
+  identity: number;
+}
+
+/**
+ * How a site's UniProt position was settled: it already matched, it was
+ * carried over by aligning the reference sequence, it was the only match
+ * a few residues away, or it could not be placed.
+ */
+export type NumberingMethod = "direct" | "alignment" | "nearby" | "unresolved";
+
+export interface SiteNumbering {
+  /** Position as entered */
+  inputPosition: number;
+  /** Position on the UniProt sequence */
+  position: number;
+  method: NumberingMethod;
+  note: string | null;
+}
+
+export interface NumberingResult<T extends VariantChange> {
+  /** The changes in UniProt numbering; unresolved sites keep their input position */
+  changes: T[];
+  sites: SiteNumbering[];
+  /** Reference the numbering was aligned from, when one was available */
+  reference: { id: string; identity: number } | null;
+}
+
+/** Alignment scores: identical and differing residues, and the cost of a gap's first and later residues */
+const MATCH_SCORE = 5;
+const MISMATCH_SCORE = -4;
+const GAP_OPEN = 10;
+const GAP_EXTEND = 1;
+/** Diagonals searched either side of the length difference: how far indels may drift the alignment */
+const BAND_MARGIN = 100;
+/** Dynamic-programming cells beyond which two sequences are treated as unrelated */
+const MAX_ALIGNMENT_CELLS = 20_000_000;
+/** Identity below which an alignment is not trusted to carry numbering */
+const MIN_IDENTITY = 0.5;
+/** Residues searched either side of a site when no reference is available */
+const NEARBY_SEARCH = 5;
+
+/** Alignment states: residues paired, a reference residue against a gap, a target residue against a gap */
+const PAIR = 0;
+const REFERENCE_GAP = 1;
+const TARGET_GAP = 2;
+const UNREACHABLE = -1e9;
+
+/** The state with the highest score, preferring pairs on a tie */
+function bestState(pair: number, referenceGap: number, targetGap: number): number {
+  if (pair >= referenceGap && pair >= targetGap) return PAIR;
+  return referenceGap >= targetGap ? REFERENCE_GAP : TARGET_GAP;
+}
+
+function stateScore(state: number, pair: number, referenceGap: number, targetGap: number): number {
+  return state === PAIR ? pair : state === REFERENCE_GAP ? referenceGap : targetGap;
+}
+
+/**
+ * Global alignment of `a` and `b` with affine gaps (Needleman–Wunsch with
+ * Gotoh's three states), restricted to a band of diagonals around the
+ * length difference. Returns the state of each alignment column, or null
+ * when the band would be too large.
+ */
+function alignStates(a: string, b: string): Uint8Array | null {
+  const n = a.length;
+  const m = b.length;
+  // Diagonal j - i of each band column
+  const low = Math.min(0, m - n) - BAND_MARGIN;
+  const width = Math.abs(m - n) + 2 * BAND_MARGIN + 1;
+  if ((n + 1) * width > MAX_ALIGNMENT_CELLS) return null;
+
+  // Scores of the previous and current row, by band column
+  let pair = new Float64Array(width).fill(UNREACHABLE);
+  let refGap = new Float64Array(width).fill(UNREACHABLE);
+  let tgtGap = new Float64Array(width).fill(UNREACHABLE);
+  let nextPair = new Float64Array(width);
+  let nextRefGap = new Float64Array(width);
+  let nextTgtGap = new Float64Array(width);
+  // Per cell, the state each of the three states was reached from: 2 bits each
+  const trace = new Uint8Array((n + 1) * width);
+
+  for (let i = 0; i <= n; i++) {
+    nextPair.fill(UNREACHABLE);
+    nextRefGap.fill(UNREACHABLE);
+    nextTgtGap.fill(UNREACHABLE);
+    for (let d = 0; d < width; d++) {
+      const j = i + low + d;
+      if (j < 0 || j > m) continue;
+      if (i === 0 && j === 0) {
+        nextPair[d] = 0;
+        continue;
+      }
+      let from = 0;
+      if (i > 0 && j > 0) {
+        const state = bestState(pair[d], refGap[d], tgtGap[d]);
+        nextPair[d] =
+          stateScore(state, pair[d], refGap[d], tgtGap[d]) +
+          (a[i - 1] === b[j - 1] ? MATCH_SCORE : MISMATCH_SCORE);
+        from |= state;
+      }
+      if (i > 0 && d + 1 < width) {
+        // Consume a[i - 1] against a gap, from (i - 1, j)
+        const p = pair[d + 1] - GAP_OPEN;
+        const r = refGap[d + 1] - GAP_EXTEND;
+        const t = tgtGap[d + 1] - GAP_OPEN;
+        const state = bestState(p, r, t);
+        nextRefGap[d] = stateScore(state, p, r, t);
+        from |= state << 2;
+      }
+      if (j > 0 && d > 0) {
+        // Consume b[j - 1] against a gap, from (i, j - 1)
+        const p = nextPair[d - 1] - GAP_OPEN;
+        const r = nextRefGap[d - 1] - GAP_OPEN;
+        const t = nextTgtGap[d - 1] - GAP_EXTEND;
+        const state = bestState(p, r, t);
+        nextTgtGap[d] = stateScore(state, p, r, t);
+        from |= state << 4;
+      }
+      trace[i * width + d] = from;
+    }
+    [pair, nextPair] = [nextPair, pair];
+    [refGap, nextRefGap] = [nextRefGap, refGap];
+    [tgtGap, nextTgtGap] = [nextTgtGap, tgtGap];
+  }
+
+  const states: number[] = [];
+  let i = n;
+  let d = m - n - low;
+  let state = bestState(pair[d], refGap[d], tgtGap[d]);
+  while (i > 0 || i + low + d > 0) {
+    states.push(state);
+    const from = (trace[i * width + d] >> (state * 2)) & 3;
+    if (state === PAIR) {
+      i--;
+    } else if (state === REFERENCE_GAP) {
+      i--;
+      d++;
+    } else {
+      d--;
+    }
+    state = from;
+  }
+  return Uint8Array.from(states.reverse());
+}
+
+/**
+ * Align a reference protein to a target (UniProt) sequence, scoring
+ * substitutions against affine gaps so a changed residue stays paired with
+ * the residue it replaced. Paired residues, identical or not, make up the
+ * blocks; insertions and deletions are left out. Returns null for
+ * sequences too different to align this way or to share numbering.
+ */
+export function alignSequences(reference: string, target: string): SequenceAlignment | null {
+  const states = alignStates(reference, target);
+  if (!states) return null;
+
+  const blocks: AlignedBlock[] = [];
+  let matches = 0;
+  let i = 0;
+  let j = 0;
+  for (const state of states) {
+    if (state === PAIR) {
+      const last = blocks[blocks.length - 1];
+      if (last && last.referenceStart + last.length === i + 1 && last.targetStart + last.length === j + 1) {
+        last.length++;
+      } else {
+        blocks.push({ referenceStart: i + 1, targetStart: j + 1, length: 1 });
+      }
+      if (reference[i] === target[j]) matches++;
+      i++;
+      j++;
+    } else if (state === REFERENCE_GAP) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  const identity = reference.length > 0 ? matches / reference.length : 0;
+  return identity >= MIN_IDENTITY ? { blocks, identity } : null;
+}
+
+/** Target position aligned with a reference position, or null inside a gap */
+export function mapPosition(alignment: SequenceAlignment, position: number): number | null {
+  const block = alignment.blocks.find(
+    (b) => position >= b.referenceStart && position < b.referenceStart + b.length
+  );
+  return block ? block.targetStart + position - block.referenceStart : null;
+}
+
+/** Check that the reference residues of `change` match `sequence` */
+export function referenceMatches(sequence: string, change: VariantChange): boolean {
+  if (change.position < 1 || change.end > sequence.length) return false;
+  return (
+    sequence[change.position - 1].toUpperCase() === change.original.toUpperCase() &&
+    sequence[change.end - 1].toUpperCase() === change.endOriginal.toUpperCase()
+  );
+}
+
+function percent(identity: number): string {
+  return `${Math.round(identity * 1000) / 10}%`;
+}
+
+/**
+ * Place a change on `sequence` by its reference: the positions the
+ * aligned residues occupy on `sequence`, or null when the change is not
+ * numbered on the reference or falls in an alignment gap.
+ */
+function placeByAlignment<T extends VariantChange>(
+  sequence: string,
+  change: T,
+  reference: ReferenceProtein,
+  alignment: SequenceAlignment
+): { change: T; site: SiteNumbering } | null {
+  if (!referenceMatches(reference.sequence, change)) return null;
+  const position = mapPosition(alignment, change.position);
+  const end = mapPosition(alignment, change.end);
+  if (position === null || end === null || end - position !== change.end - change.position) {
+    return null;
+  }
+
+  const placed = shiftVariant(change, position);
+  const moved = position !== change.position;
+  let note: string | null = moved
+    ? `${change.original}${change.position} on ${reference.id} is ${change.original}${position} on UniProt.`
+    : null;
+  if (!referenceMatches(sequence, placed)) {
+    const actual = sequence[position - 1] ?? "nothing";
+    note = `${change.original}${change.position} on ${reference.id} aligns to ${actual}${position} on UniProt; the two sequences differ at this site.`;
+  }
+  return {
+    change: placed,
+    site: { inputPosition: change.position, position, method: moved ? "alignment" : "direct", note },
+  };
+}
+
+/**
+ * Without a usable reference, accept a shifted position only when it is
+ * the one match within a few residues; a residue type that recurs nearby
+ * is reported instead of guessed.
+ */
+function placeNearby<T extends VariantChange>(
+  sequence: string,
+  change: T
+): { change: T; site: SiteNumbering } {
+  const candidates: T[] = [];
+  for (let offset = -NEARBY_SEARCH; offset <= NEARBY_SEARCH; offset++) {
+    if (offset === 0) continue;
+    const shifted = shiftVariant(change, change.position + offset);
+    if (referenceMatches(sequence, shifted)) candidates.push(shifted);
+  }
+
+  const { original, position } = change;
+  const actual = sequence[position - 1] ?? "nothing";
+  if (candidates.length === 1) {
+    const [shifted] = candidates;
+    return {
+      change: shifted,
+      site: {
+        inputPosition: position,
+        position: shifted.position,
+        method: "nearby",
+        note: `UniProt has ${actual} at ${position}; the only ${original} within ±${NEARBY_SEARCH} residues is at ${shifted.position}, assumed to be the same residue. No reference sequence was available to confirm this.`,
+      },
+    };
+  }
+  return {
+    change,
+    site: {
+      inputPosition: position,
+      position,
+      method: "unresolved",
+      note:
+        candidates.length === 0
+          ? `Expected ${original} at position ${position} but found ${actual}. Could not find ${original} within ±${NEARBY_SEARCH} positions.`
+          : `Expected ${original} at position ${position} but found ${actual}. ${original} occurs at ${candidates.map((c) => c.position).join(", ")} nearby, so the intended residue is ambiguous.`,
+    },
+  };
+}
+
+/**
+ * Bring each change into the numbering of `sequence` (UniProt). Changes
+ * numbered on `reference` are mapped through an alignment of the two
+ * sequences; the rest must match directly or be the only match nearby.
+ * A gene's CDS is only a guess at the reference, so it is not used for
+ * sites that already match.
+ */
+export function reconcileNumbering<T extends VariantChange>(
+  sequence: string,
+  changes: T[],
+  reference: ReferenceProtein | null
+): NumberingResult<T> {
+  const alignment = reference ? alignSequences(reference.sequence, sequence) : null;
+  const placed = changes.map((change) => {
+    // A site that already matches UniProt stays put unless its transcript was named
+    const matches = referenceMatches(sequence, change);
+    const aligned =
+      reference && alignment && (reference.named || !matches)
+        ? placeByAlignment(sequence, change, reference, alignment)
+        : null;
+    if (aligned) return aligned;
+    if (matches) {
+      const site: SiteNumbering = {
+        inputPosition: change.position,
+        position: change.position,
+        method: "direct",
+        note: null,
+      };
+      return { change, site };
+    }
+    return placeNearby(sequence, change);
+  });
+
+  return {
+    changes: placed.map((p) => p.change),
+    sites: placed.map((p) => p.site),
+    reference: reference && alignment ? { id: reference.id, identity: alignment.identity } : null,
+  };
+}
+
+/** One line for the summary bar, e.g. "Aligned from NM_000546.6 (99.6% identical)" */
+export function describeReference(reference: { id: string; identity: number }): string {
+  return `Aligned from ${reference.id} (${percent(reference.identity)} identical)`;
+}
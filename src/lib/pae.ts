@@ -0,0 +1,116 @@
+/**
+ * Predicted aligned error, averaged into square bins so large proteins
+ * stay small enough to send to the browser. `values[i][j]` is the mean
+ * expected error (Å) at residues of bin j when aligned on residues of bin i.
+ */
+export interface PaeMatrix {
+  /** Number of residues */
+  size: number;
+  /** Full-length number of the first residue; above 1 for a later AlphaFold fragment */
+  start: number;
+  /** Residues per bin; bin i covers residues start+i*binSize .. start+(i+1)*binSize-1 */
+  binSize: number;
+  /** Largest error the model reports (the colour scale maximum) */
+  max: number;
+  values: number[][];
+}
+
+/** Bins per side of the matrix returned to the client */
+export const MAX_PAE_BINS = 400;
+
+interface PaeDocument {
+  predicted_aligned_error?: number[][];
+  max_predicted_aligned_error?: number;
+  // Pre-2022 AlphaFold DB layout: flattened residue pairs
+  residue1?: number[];
+  residue2?: number[];
+  distance?: number[];
+}
+
+/** Largest value without spreading millions of arguments onto the stack */
+function largest(values: Iterable<number>): number {
+  let max = 0;
+  for (const v of values) if (v > max) max = v;
+  return max;
+}
+
+/** Read either AlphaFold DB PAE JSON layout into a full matrix */
+export function parsePaeJson(json: unknown): { matrix: number[][]; max: number } | null {
+  const doc = (Array.isArray(json) ? json[0] : json) as PaeDocument | undefined;
+  if (!doc) return null;
+
+  if (Array.isArray(doc.predicted_aligned_error)) {
+    const matrix = doc.predicted_aligned_error;
+    const max = doc.max_predicted_aligned_error ?? largest(matrix.flat());
+    return { matrix, max };
+  }
+
+  if (doc.residue1 && doc.residue2 && doc.distance) {
+    const size = largest(doc.residue1);
+    const matrix = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    doc.residue1.forEach((r1, k) => {
+      matrix[r1 - 1][doc.residue2![k] - 1] = doc.distance![k];
+    });
+    const max = doc.max_predicted_aligned_error ?? largest(doc.distance);
+    return { matrix, max };
+  }
+
+  return null;
+}
+
+/** Average a full PAE matrix into at most `maxBins` bins per side */
+export function binPae(matrix: number[][], max: number, maxBins = MAX_PAE_BINS): PaeMatrix {
+  const size = matrix.length;
+  const binSize = Math.max(1, Math.ceil(size / maxBins));
+  const bins = Math.ceil(size / binSize);
+
+  const values = Array.from({ length: bins }, (_, bi) =>
+    Array.from({ length: bins }, (_, bj) => {
+      let sum = 0;
+      let count = 0;
+      for (let i = bi * binSize; i < Math.min(size, (bi + 1) * binSize); i++) {
+        for (let j = bj * binSize; j < Math.min(size, (bj + 1) * binSize); j++) {
+          sum += matrix[i][j];
+          count++;
+        }
+      }
+      return Math.round((sum / count) * 10) / 10;
+    })
+  );
+
+  return { size, start: 1, binSize, max, values };
+}
+
+/** Bin index holding a residue (full-length numbering) */
+export function paeBin(pae: PaeMatrix, resi: number): number {
+  return Math.floor((resi - pae.start) / pae.binSize);
+}
+
+/** Whether the matrix covers a residue */
+export function paeCovers(pae: PaeMatrix, resi: number): boolean {
+  return resi >= pae.start && resi < pae.start + pae.size;
+}
+
+/**
+ * Mean PAE between residues start..end and every residue outside it,
+ * taken both ways. Low values mean the region is placed confidently
+ * relative to the rest of the protein.
+ */
+export function meanCrossPae(pae: PaeMatrix, start: number, end: number): number | null {
+  // Regions reaching past a fragment edge are clipped to the matrix
+  const first = Math.max(paeBin(pae, start), 0);
+  const last = Math.min(paeBin(pae, end), pae.values.length - 1);
+  if (first > last) return null;
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < pae.values.length; i++) {
+    const inside = i >= first && i <= last;
+    for (let j = 0; j < pae.values.length; j++) {
+      const jInside = j >= first && j <= last;
+      if (inside === jInside) continue;
+      sum += pae.values[i][j];
+      count++;
+    }
+  }
+  return count > 0 ? Math.round((sum / count) * 10) / 10 : null;
+}
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseStructuredExplanation } from "./explanation";
+import { getLlmProvider } from "./llm";
+import {
+  AUDIENCES,
+  DEFAULT_EXPLANATION_MODE,
+  buildExplanationPrompt,
+  evidenceFrame,
+  type Audience,
+  type EvidenceFrame,
+  type ExplanationInput,
+} from "./prompts";
+
+interface Fixture {
+  name: string;
+  alphamissense: string;
+  clinvar: string;
+  frame: EvidenceFrame;
+}
+
+/** AlphaMissense and ClinVar values as the page sends them, with the frame each must get */
+const FIXTURES: Fixture[] = [
+  {
+    name: "pathogenic by both",
+    alphamissense: "0.9461 (likely_pathogenic)",
+    clinvar: "Pathogenic",
+    frame: "pathogenic",
+  },
+  {
+    name: "pathogenic, disease named benign",
+    alphamissense: "Not available",
+    clinvar: "Pathogenic — Benign familial neonatal seizures",
+    frame: "pathogenic",
+  },
+  {
+    name: "one pathogenic site, one without data",
+    alphamissense: "R175H: 0.9912 (likely_pathogenic); R248Q: Not available",
+    clinvar: "R175H: Pathogenic — Li-Fraumeni syndrome; R248Q: Not available",
+    frame: "pathogenic",
+  },
+  {
+    name: "benign by both",
+    alphamissense: "0.0712 (likely_benign)",
+    clinvar: "Benign",
+    frame: "benign",
+  },
+  {
+    name: "benign in ClinVar, no AlphaMissense score",
+    alphamissense: "Not available",
+    clinvar: "Likely benign",
+    frame: "benign",
+  },
+  {
+    name: "non-pathogenic in ClinVar",
+    alphamissense: "0.1104 (likely_benign)",
+    clinvar: "Non-pathogenic",
+    frame: "benign",
+  },
+  {
+    name: "not pathogenic in ClinVar, no AlphaMissense score",
+    alphamissense: "Not available",
+    clinvar: "not pathogenic",
+    frame: "benign",
+  },
+  {
+    name: "one pathogenic site, one benign site",
+    alphamissense: "R175H: 0.9912 (likely_pathogenic); P72R: 0.0803 (likely_benign)",
+    clinvar: "R175H: Pathogenic — Li-Fraumeni syndrome; P72R: Benign",
+    frame: "mixed",
+  },
+  {
+    name: "sources disagree at one site of two",
+    alphamissense: "R175H: 0.9912 (likely_pathogenic); P72R: 0.8120 (likely_pathogenic)",
+    clinvar: "R175H: Pathogenic; P72R: Benign",
+    frame: "conflicting",
+  },
+  {
+    name: "predictor and ClinVar disagree",
+    alphamissense: "0.8820 (likely_pathogenic)",
+    clinvar: "Benign",
+    frame: "conflicting",
+  },
+  {
+    name: "ClinVar conflicting",
+    alphamissense: "0.4210 (ambiguous)",
+    clinvar: "Conflicting classifications of pathogenicity",
+    frame: "conflicting",
+  },
+  {
+    name: "variant of uncertain significance",
+    alphamissense: "0.4512 (ambiguous)",
+    clinvar: "Uncertain significance",
+    frame: "missing",
+  },
+  {
+    name: "no evidence",
+    alphamissense: "Not available",
+    clinvar: "Not available",
+    frame: "missing",
+  },
+];
+
+function explanationInput(fixture: Fixture): ExplanationInput {
+  return {
+    proteinName: "Cellular tumor antigen p53",
+    geneName: "TP53",
+    mutation: "R175H",
+    domain: "DNA-binding domain",
+    plddt: 92.4,
+    alphamissense: fixture.alphamissense,
+    clinvar: fixture.clinvar,
+    features: "None reported",
+  };
+}
+
+/** The prompt without its evidence lines, which quote the classifications verbatim */
+function instructions(prompt: string): string {
+  return prompt
+    .split("\n")
+    .filter((line) => !line.startsWith("["))
+    .join("\n");
+}
+
+/**
+ * Wording that takes a damaging effect for granted. "Do not assume the
+ * mutation is damaging or harmless" is neutral and must not match.
+ */
+const PRESUMES_DAMAGE = [
+  /likely (damaging|deleterious|pathogenic)/i,
+  /\bwhy\b[^.]*\b(damaging|deleterious|harmful|pathogenic|disrupts?|impairs?)\b/i,
+  /\bhow (this|the) (mutation|variant) (damages|disrupts|impairs|causes)\b/i,
+  /disease-causing/i,
+  /towards a damaging effect/i,
+];
+
+describe("evidenceFrame", () => {
+  it.each(FIXTURES)("frames $name as $frame", (fixture) => {
+    expect(evidenceFrame(fixture)).toBe(fixture.frame);
+  });
+});
+
+describe("buildExplanationPrompt", () => {
+  const audiences = Object.keys(AUDIENCES) as Audience[];
+
+  it.each(FIXTURES.filter((f) => f.frame !== "pathogenic"))(
+    "never presumes pathogenicity for $name",
+    (fixture) => {
+      for (const audience of audiences) {
+        const prompt = instructions(
+          buildExplanationPrompt(explanationInput(fixture), { ...DEFAULT_EXPLANATION_MODE, audience })
+        );
+        for (const pattern of PRESUMES_DAMAGE) expect(prompt).not.toMatch(pattern);
+      }
+    }
+  );
+
+  it("asks for an unknown effect when there is no informative evidence", () => {
+    const vus = FIXTURES.find((f) => f.name === "variant of uncertain significance")!;
+    expect(buildExplanationPrompt(explanationInput(vus), DEFAULT_EXPLANATION_MODE)).toContain(
+      "say plainly that the effect of this variant is unknown"
+    );
+  });
+
+  it("asks for each site of a mixed compound variant on its own", () => {
+    const mixed = FIXTURES.find((f) => f.frame === "mixed")!;
+    expect(buildExplanationPrompt(explanationInput(mixed), DEFAULT_EXPLANATION_MODE)).toContain(
+      "Take the sites one at a time"
+    );
+  });
+
+  it("keeps conflicting evidence unresolved", () => {
+    const conflict = FIXTURES.find((f) => f.frame === "conflicting")!;
+    expect(buildExplanationPrompt(explanationInput(conflict), DEFAULT_EXPLANATION_MODE)).toContain(
+      "do not resolve the conflict in either direction"
+    );
+  });
+
+  it("quotes every evidence item under its citation name", () => {
+    const prompt = buildExplanationPrompt(explanationInput(FIXTURES[0]), DEFAULT_EXPLANATION_MODE);
+    for (const field of ["domain", "plddt", "alphamissense", "clinvar", "features"]) {
+      expect(prompt).toMatch(new RegExp(`^\\[${field}\\] `, "m"));
+    }
+  });
+});
+
+describe("stub model", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_PROVIDER", "stub");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function explain(fixture: Fixture): Promise<string> {
+    const provider = getLlmProvider();
+    const prompt = buildExplanationPrompt(explanationInput(fixture), DEFAULT_EXPLANATION_MODE);
+    const stream = await provider.stream(prompt, new AbortController().signal);
+    if (!stream.ok) throw new Error(stream.error);
+    let reply = "";
+    for await (const text of stream.tokens) reply += text;
+    return reply;
+  }
+
+  it.each(FIXTURES)("returns a valid explanation for $name", async (fixture) => {
+    const parsed = parseStructuredExplanation(await explain(fixture));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+    expect(parsed.explanation.rejectedClaims).toBe(0);
+    for (const pattern of PRESUMES_DAMAGE) expect(parsed.explanation.summary).not.toMatch(pattern);
+  });
+
+  it("gives the same reply for the same prompt and a different one for different evidence", async () => {
+    const benign = FIXTURES.find((f) => f.name === "benign by both")!;
+    const missing = FIXTURES.find((f) => f.name === "no evidence")!;
+    expect(await explain(benign)).toBe(await explain(benign));
+    expect(await explain(benign)).not.toBe(await explain(missing));
+  });
+});
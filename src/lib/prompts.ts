@@ -0,0 +1,220 @@
+import { EVIDENCE_FIELDS } from "./explanation";
+
+/** Variant context the explanation is written from */
+export interface ExplanationInput {
+  proteinName: string;
+  geneName: string;
+  /** Only given for non-human proteins */
+  organism?: string;
+  mutation: string;
+  domain: string;
+  plddt: number;
+  alphamissense: string;
+  clinvar: string;
+  /** UniProt features at or next to the sites */
+  features: string;
+}
+
+export type Audience = "physician" | "counselor" | "researcher" | "patient";
+export type DetailLevel = "brief" | "standard" | "detailed";
+
+/** Who the explanation is for, in what language and at what length */
+export interface ExplanationMode {
+  audience: Audience;
+  /** Key of LANGUAGES */
+  language: string;
+  detail: DetailLevel;
+}
+
+export const DEFAULT_EXPLANATION_MODE: ExplanationMode = {
+  audience: "physician",
+  language: "en",
+  detail: "brief",
+};
+
+interface AudienceTemplate {
+  label: string;
+  /** Completes "explaining a protein mutation to ..." */
+  reader: string;
+  /** How to pitch the explanation for this reader */
+  guidance: string;
+}
+
+export const AUDIENCES: Record<Audience, AudienceTemplate> = {
+  physician: {
+    label: "Physician",
+    reader: "a physician",
+    guidance: "Reference the structural context (domain, confidence) and clinical significance.",
+  },
+  counselor: {
+    label: "Genetic counselor",
+    reader: "a genetic counselor",
+    guidance:
+      "Reference the structural context and the classification evidence, and say what the evidence does and does not establish for counseling.",
+  },
+  researcher: {
+    label: "Researcher",
+    reader: "a protein scientist",
+    guidance:
+      "Use precise structural terminology; discuss the domain, the model confidence at the site and how the predictors and classifications relate.",
+  },
+  patient: {
+    label: "Patient",
+    reader: "a patient with no scientific background",
+    guidance:
+      "Avoid jargon and explain any technical term you must use. Do not give medical advice; suggest discussing the result with their doctor or genetic counselor.",
+  },
+};
+
+export const DETAIL_LEVELS: Record<DetailLevel, { label: string; length: string }> = {
+  brief: { label: "Brief", length: "Be concise: a summary of 2-3 sentences and at most 3 claims." },
+  standard: { label: "Standard", length: "Write a one-paragraph summary (4-6 sentences) and up to 5 claims." },
+  detailed: { label: "Detailed", length: "Write a summary of two or three short paragraphs and up to 8 claims." },
+};
+
+/** Output languages offered, keyed by ISO 639-1 code */
+export const LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  zh: "Chinese (Simplified)",
+  ja: "Japanese",
+  ar: "Arabic",
+};
+
+/**
+ * What the supplied classifications say as a whole. "mixed" is a compound
+ * variant whose sites point in different directions while no source
+ * disagrees about any one site. "missing" covers no data as well as
+ * uninformative calls (VUS, AlphaMissense "ambiguous").
+ */
+export type EvidenceFrame = "pathogenic" | "benign" | "conflicting" | "mixed" | "missing";
+
+type Signal = "pathogenic" | "benign" | "conflicting" | "uninformative";
+
+/**
+ * Read each site's call from an AlphaMissense or ClinVar value such as
+ * "0.9461 (likely_pathogenic)" or "R175H: Pathogenic — Li-Fraumeni
+ * syndrome; R248Q: Not available". Disease names after the dash are
+ * ignored, so "Benign familial neonatal seizures" is not read as benign,
+ * and negated calls ("Non-pathogenic") are read before "pathogenic".
+ */
+function readSignals(value: string): Signal[] {
+  return value.split(";").map((part) => {
+    const call = part
+      .replace(/^\s*[^:]*\d[^:]*:\s*/, "")
+      .split(/\s[—–-]\s/)[0]
+      .replace(/_/g, " ")
+      .toLowerCase();
+    if (call.includes("conflicting")) return "conflicting";
+    if (/\b(?:non|not)[\s-]*pathogenic\b/.test(call)) return "benign";
+    if (/\bbenign\b/.test(call)) return "benign";
+    if (/\bpathogenic\b/.test(call)) return "pathogenic";
+    return "uninformative";
+  });
+}
+
+/** What the calls about one site say together */
+function siteFrame(signals: Signal[]): EvidenceFrame {
+  const set = new Set(signals);
+  if (set.has("conflicting") || (set.has("pathogenic") && set.has("benign"))) return "conflicting";
+  if (set.has("pathogenic")) return "pathogenic";
+  if (set.has("benign")) return "benign";
+  return "missing";
+}
+
+/**
+ * Frame the explanation by the evidence, never by an assumed outcome.
+ * Sources are compared site by site, so a compound variant with one
+ * pathogenic and one benign site is "mixed", not "conflicting".
+ */
+export function evidenceFrame(input: Pick<ExplanationInput, "alphamissense" | "clinvar">): EvidenceFrame {
+  const alphamissense = readSignals(input.alphamissense);
+  const clinvar = readSignals(input.clinvar);
+  // Both values list the same sites in the same order; otherwise read them as one site
+  const sites =
+    alphamissense.length === clinvar.length
+      ? alphamissense.map((signal, i) => siteFrame([signal, clinvar[i]]))
+      : [siteFrame([...alphamissense, ...clinvar])];
+
+  const frames = new Set(sites);
+  if (frames.has("conflicting")) return "conflicting";
+  frames.delete("missing");
+  if (frames.size > 1) return "mixed";
+  return frames.size === 1 ? [...frames][0] : "missing";
+}
+
+/** The task given to the model for each frame */
+const FRAME_TASKS: Record<EvidenceFrame, string> = {
+  pathogenic:
+    "The classifications above point towards a damaging effect. Explain what they report and whether the structural context is consistent with it, without claiming more certainty than they give.",
+  benign:
+    "The classifications above point towards a tolerated change. Explain what they report and what the structural context shows; do not suggest the variant is damaging unless an evidence item says so.",
+  mixed:
+    "The sites of this variant point in different directions: the classifications above favour a damaging effect at some sites and a tolerated change at others. Take the sites one at a time and report each site's evidence as given, without merging them into one verdict, and say that the combined effect is uncertain.",
+  conflicting:
+    "The evidence above disagrees. Present each side as reported, do not resolve the conflict in either direction, and say that the effect of this variant is uncertain.",
+  missing:
+    "No informative classification is available for this variant (missing, of uncertain significance or ambiguous). Describe the structural context only, say plainly that the effect of this variant is unknown, and do not speculate that it is damaging or harmless.",
+};
+
+/** Read a mode from a request body, or describe what is wrong with it */
+export function parseExplanationMode(
+  value: { audience?: unknown; language?: unknown; detail?: unknown }
+): { ok: true; mode: ExplanationMode } | { ok: false; error: string } {
+  const {
+    audience = DEFAULT_EXPLANATION_MODE.audience,
+    language = DEFAULT_EXPLANATION_MODE.language,
+    detail = DEFAULT_EXPLANATION_MODE.detail,
+  } = value;
+  if (typeof audience !== "string" || !(audience in AUDIENCES)) {
+    return { ok: false, error: `audience must be one of: ${Object.keys(AUDIENCES).join(", ")}` };
+  }
+  if (typeof language !== "string" || !(language in LANGUAGES)) {
+    return { ok: false, error: `language must be one of: ${Object.keys(LANGUAGES).join(", ")}` };
+  }
+  if (typeof detail !== "string" || !(detail in DETAIL_LEVELS)) {
+    return { ok: false, error: `detail must be one of: ${Object.keys(DETAIL_LEVELS).join(", ")}` };
+  }
+  return {
+    ok: true,
+    mode: { audience: audience as Audience, language, detail: detail as DetailLevel },
+  };
+}
+
+/**
+ * The prompt for one variant, written for the mode's reader, language and
+ * length, and framed by what its evidence says (see `evidenceFrame`).
+ */
+export function buildExplanationPrompt(input: ExplanationInput, mode: ExplanationMode): string {
+  const audience = AUDIENCES[mode.audience];
+  const frame = evidenceFrame(input);
+  // Organism is only sent for non-human proteins
+  const organismLine = input.organism ? `\nOrganism: ${input.organism}` : "";
+  const languageLine =
+    mode.language === "en"
+      ? ""
+      : `\n\nWrite the summary, claims and uncertainty in ${LANGUAGES[mode.language]}. Keep the JSON keys and evidence names in English, and gene, protein and variant names, scores and classifications exactly as given.`;
+
+  return `You are a structural biology expert explaining a protein mutation to ${audience.reader}. ${DETAIL_LEVELS[mode.detail].length}
+
+Protein: ${input.proteinName} (${input.geneName})${organismLine}
+Mutation: ${input.mutation}
+
+Evidence, each named in brackets:
+[domain] Domain: ${input.domain}
+[plddt] AlphaFold pLDDT at mutation site: ${input.plddt}
+[alphamissense] AlphaMissense pathogenicity: ${input.alphamissense}
+[clinvar] ClinVar classification: ${input.clinvar}
+[features] UniProt features at or next to the site: ${input.features}
+
+Describe in plain language what this evidence shows about the mutation's effect on protein function. Do not assume the mutation is damaging or harmless; follow the evidence. ${FRAME_TASKS[frame]} ${audience.guidance}
+
+Reply with a single JSON object and nothing else (no Markdown, no code fence):
+{"summary": "...", "claims": [{"text": "...", "evidence": "domain"}], "uncertainty": "..."}
+Put "summary" first. Every claim must rest on exactly one evidence item above and name it in "evidence" (one of ${EVIDENCE_FIELDS.join(", ")}); an item that is not available cannot support a claim. Do not state anything the evidence does not support. In "uncertainty", say what this evidence cannot establish.${languageLine}`;
+}
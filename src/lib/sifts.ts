@@ -0,0 +1,95 @@
+import { createReadStream } from "node:fs";
+import { access } from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { createGunzip } from "node:zlib";
+
+/**
+ * One row of the SIFTS `pdb_chain_uniprot.tsv` file: a stretch of a PDB
+ * chain aligned to a stretch of a UniProt sequence.
+ */
+export interface SiftsSegment {
+  pdbId: string;
+  /** Author chain ID */
+  chain: string;
+  uniprotId: string;
+  /** First and last mmCIF `label_seq_id` of the segment */
+  resBeg: number;
+  resEnd: number;
+  /** First and last UniProt residue of the segment */
+  spBeg: number;
+  spEnd: number;
+}
+
+export function getSiftsFile(): string {
+  return path.resolve(
+    process.env.SIFTS_MAPPING_FILE ??
+      path.join("data", "sifts", "pdb_chain_uniprot.tsv.gz")
+  );
+}
+
+/** Segments already read, keyed by UniProt accession */
+const segmentCache = new Map<string, SiftsSegment[]>();
+
+/**
+ * Read every segment mapped to a UniProt accession. The file is large,
+ * so it is streamed (gzipped or plain) rather than loaded whole, and the
+ * matches for each accession are cached.
+ */
+export async function readSiftsSegments(uniprotId: string): Promise<SiftsSegment[]> {
+  const accession = uniprotId.toUpperCase();
+  const cached = segmentCache.get(accession);
+  if (cached) return cached;
+
+  const file = getSiftsFile();
+  try {
+    await access(file);
+  } catch {
+    throw new Error(
+      `SIFTS mapping file not found: ${file}. Set SIFTS_MAPPING_FILE or add pdb_chain_uniprot.tsv.gz to data/sifts.`
+    );
+  }
+
+  const stream = createReadStream(file);
+  const lines = createInterface({
+    input: file.endsWith(".gz") ? stream.pipe(createGunzip()) : stream,
+    crlfDelay: Infinity,
+  });
+
+  const segments: SiftsSegment[] = [];
+  let col: Record<string, number> | null = null;
+  for await (const line of lines) {
+    if (!line || line.startsWith("#")) continue;
+    const cells = line.split("\t");
+    // The first non-comment line names the columns
+    if (!col) {
+      col = Object.fromEntries(cells.map((c, i) => [c.toUpperCase(), i]));
+      continue;
+    }
+    if (cells[col.SP_PRIMARY]?.toUpperCase() !== accession) continue;
+
+    segments.push({
+      pdbId: cells[col.PDB].toUpperCase(),
+      chain: cells[col.CHAIN],
+      uniprotId: accession,
+      resBeg: parseInt(cells[col.RES_BEG], 10),
+      resEnd: parseInt(cells[col.RES_END], 10),
+      spBeg: parseInt(cells[col.SP_BEG], 10),
+      spEnd: parseInt(cells[col.SP_END], 10),
+    });
+  }
+
+  segmentCache.set(accession, segments);
+  return segments;
+}
+
+/** UniProt residue for an mmCIF `label_seq_id`, or null outside every segment */
+export function labelSeqToUniprot(segments: SiftsSegment[], labelSeq: number): number | null {
+  const segment = segments.find((s) => labelSeq >= s.resBeg && labelSeq <= s.resEnd);
+  return segment ? segment.spBeg + (labelSeq - segment.resBeg) : null;
+}
+
+/** Whether any segment of a chain covers a UniProt residue */
+export function coversResidue(segments: SiftsSegment[], position: number): boolean {
+  return segments.some((s) => position >= s.spBeg && position <= s.spEnd);
+}
@@ -0,0 +1,54 @@
+/** One Server-Sent Event; `event` is "message" when the stream names none */
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Read Server-Sent Events from a response body, for streams that
+ * EventSource cannot open (POST requests, upstream APIs). Comments and
+ * retry/id fields are skipped.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) >= 0) {
+        const line = buffer.substring(0, newline);
+        buffer = buffer.substring(newline + (buffer[newline] === "\r" ? 2 : 1));
+
+        if (line === "") {
+          // A blank line ends the event
+          if (data.length > 0) yield { event, data: data.join("\n") };
+          event = "message";
+          data = [];
+        } else if (line.startsWith("event:")) {
+          event = line.substring(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.substring(5).replace(/^ /, ""));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join("\n") };
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Format one event for a text/event-stream response */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  atomsToPdb,
+  caCoordinates,
+  meanBFactor,
+  parsePdbAtoms,
+  parseStructure,
+  polymerChain,
+  residueBFactors,
+} from "./structure";
+
+/** Two chains, an inserted residue (52A), alternate locations, MSE, a calcium ion and water */
+const PDB = `HEADER    TEST
+ATOM      1  N   MET A   1       0.000   0.000   0.000  1.00 90.00           N
+ATOM      2  CA  MET A   1       1.000   0.000   0.000  1.00 90.00           C
+ATOM      3  CA  GLY A  52       2.000   0.000   0.000  1.00 80.00           C
+ATOM      4  CA  SER A  52A      3.000   0.000   0.000  1.00 10.00           C
+ATOM      5  CA ALEU A  53       4.000   0.000   0.000  0.60 70.00           C
+ATOM      6  CA BLEU A  53       9.000   9.000   9.000  0.40 20.00           C
+HETATM    7  CA  MSE A  54       5.000   0.000   0.000  1.00 60.00           C
+HETATM    8 SE   MSE A  54       5.000   1.000   0.000  1.00 60.00          SE
+TER
+ATOM      9  CA  ALA B   1       6.000   0.000   0.000  1.00 50.00           C
+HETATM   10 CA    CA B 101       7.000   0.000   0.000  1.00 30.00          CA
+HETATM   11  O   HOH B 201       8.000   0.000   0.000  1.00 30.00           O
+END`;
+
+describe("parsePdbAtoms", () => {
+  it("reads the fixed columns of ATOM and HETATM records", () => {
+    const atoms = parsePdbAtoms(PDB);
+    expect(atoms).toHaveLength(11);
+    expect(atoms[3]).toMatchObject({ resName: "SER", chain: "A", resSeq: 52, iCode: "A", bFactor: 10 });
+    expect(atoms[4]).toMatchObject({ altLoc: "A", occupancy: 0.6 });
+    expect(atoms[7]).toMatchObject({ record: "HETATM", name: "SE", element: "SE" });
+  });
+
+  it("stops at the first ENDMDL so only the first model is read", () => {
+    const model = PDB.split("\n").slice(1, 3).join("\n");
+    const moved = model.replace(/ {2}1\.000 {3}0\.000/, "99.000   0.000");
+    const pdb = `MODEL        1\n${model}\nENDMDL\nMODEL        2\n${moved}\nENDMDL\nEND`;
+    const atoms = parsePdbAtoms(pdb);
+    expect(atoms).toHaveLength(2);
+    expect(atoms[1].x).toBe(1);
+  });
+
+  it("guesses the element from the atom name when the column is blank", () => {
+    const [atom] = parsePdbAtoms("ATOM      2  CA  MET A   1       1.000   0.000   0.000  1.00 90.00");
+    expect(atom.element).toBe("C");
+  });
+});
+
+describe("parseStructure", () => {
+  const structure = parseStructure(PDB);
+
+  it("keeps chains apart", () => {
+    expect(structure.chains.map((c) => c.id)).toEqual(["A", "B"]);
+    expect(polymerChain(structure, "B")?.residues.map((r) => r.resName)).toEqual(["ALA", "CA", "HOH"]);
+  });
+
+  it("tells inserted residues apart from the residue they follow", () => {
+    const chainA = polymerChain(structure)!;
+    expect(chainA.residues.map((r) => `${r.resSeq}${r.iCode}`)).toEqual(["1", "52", "52A", "53", "54"]);
+  });
+
+  it("keeps only the first alternate location", () => {
+    const leu = polymerChain(structure)!.residues.find((r) => r.resSeq === 53)!;
+    expect(leu.atoms).toHaveLength(1);
+    expect(leu.atoms[0].altLoc).toBe("A");
+  });
+
+  it("treats MSE as an amino acid and ions and water as ligands", () => {
+    const [chainA, chainB] = structure.chains;
+    expect(chainA.residues.find((r) => r.resName === "MSE")?.polymer).toBe(true);
+    expect(chainB.residues.filter((r) => !r.polymer).map((r) => r.resName)).toEqual(["CA", "HOH"]);
+  });
+
+  it("gives per-residue values for the numbered residues of one chain", () => {
+    const plddt = residueBFactors(structure);
+    expect([...plddt.keys()]).toEqual([1, 52, 53, 54]);
+    // 52A (pLDDT 10) must not overwrite 52; the B conformer must not reach 53
+    expect(plddt.get(52)).toBe(80);
+    expect(plddt.get(53)).toBe(70);
+    expect(caCoordinates(structure).get(53)).toEqual({ x: 4, y: 0, z: 0 });
+    expect([...residueBFactors(structure, "B").keys()]).toEqual([1]);
+  });
+
+  it("averages B-factors over amino-acid atoms only", () => {
+    // 2×90, 80, 10, 70, 2×60 and 50 from chain B; the ion and water are left out
+    expect(meanBFactor(structure)).toBe(63.8);
+  });
+});
+
+describe("atomsToPdb", () => {
+  it("writes records that read back unchanged", () => {
+    const atoms = parsePdbAtoms(PDB);
+    expect(parsePdbAtoms(atomsToPdb(atoms))).toEqual(atoms);
+  });
+});
@@ -0,0 +1,255 @@
+import { parseMmcifAtoms } from "./mmcif";
+
+/** One ATOM or HETATM record */
+export interface Atom {
+  record: "ATOM" | "HETATM";
+  serial: number;
+  name: string;
+  altLoc: string;
+  resName: string;
+  chain: string;
+  resSeq: number;
+  iCode: string;
+  x: number;
+  y: number;
+  z: number;
+  occupancy: number;
+  bFactor: number;
+  element: string;
+}
+
+export type Coord = { x: number; y: number; z: number };
+
+export interface Residue {
+  chain: string;
+  resSeq: number;
+  /** Insertion code, "" when there is none */
+  iCode: string;
+  resName: string;
+  /** Amino acids, including modified ones stored as HETATM; false for ligands and water */
+  polymer: boolean;
+  atoms: Atom[];
+}
+
+export interface Chain {
+  id: string;
+  residues: Residue[];
+}
+
+/** Coordinates of the first model, grouped into chains and residues */
+export interface Structure {
+  chains: Chain[];
+}
+
+/** Read the ATOM and HETATM records of the first model in a PDB file */
+export function parsePdbAtoms(pdbData: string): Atom[] {
+  const atoms: Atom[] = [];
+  for (const line of pdbData.split(/\r?\n/)) {
+    if (line.startsWith("ENDMDL")) break;
+    const record = line.substring(0, 6).trim();
+    if (record !== "ATOM" && record !== "HETATM") continue;
+
+    const name = line.substring(12, 16).trim();
+    const x = parseFloat(line.substring(30, 38));
+    const y = parseFloat(line.substring(38, 46));
+    const z = parseFloat(line.substring(46, 54));
+    const resSeq = parseInt(line.substring(22, 26), 10);
+    if ([x, y, z, resSeq].some(isNaN)) continue;
+
+    const occupancy = parseFloat(line.substring(54, 60));
+    const bFactor = parseFloat(line.substring(60, 66));
+    atoms.push({
+      record,
+      serial: parseInt(line.substring(6, 11), 10),
+      name,
+      altLoc: line.charAt(16).trim(),
+      resName: line.substring(17, 20).trim(),
+      chain: line.charAt(21).trim(),
+      resSeq,
+      iCode: line.charAt(26).trim(),
+      x,
+      y,
+      z,
+      occupancy: isNaN(occupancy) ? 1 : occupancy,
+      bFactor: isNaN(bFactor) ? 0 : bFactor,
+      // Old files leave the element column blank
+      element: line.substring(76, 78).trim() || name.replace(/[^A-Z]/gi, "").charAt(0),
+    });
+  }
+  return atoms;
+}
+
+/**
+ * Group atoms into chains and residues. Residues are told apart by number
+ * and insertion code; only the first alternate location of each residue
+ * is kept.
+ */
+export function buildStructure(atoms: Atom[]): Structure {
+  const chains = new Map<string, Chain>();
+  const residues = new Map<string, Residue>();
+  const keptAltLoc = new Map<string, string>();
+
+  for (const atom of atoms) {
+    const key = `${atom.chain}:${atom.resSeq}${atom.iCode}`;
+    if (atom.altLoc) {
+      const kept = keptAltLoc.get(key) ?? atom.altLoc;
+      keptAltLoc.set(key, kept);
+      if (atom.altLoc !== kept) continue;
+    }
+
+    let residue = residues.get(key);
+    if (!residue) {
+      let chain = chains.get(atom.chain);
+      if (!chain) {
+        chain = { id: atom.chain, residues: [] };
+        chains.set(atom.chain, chain);
+      }
+      residue = {
+        chain: atom.chain,
+        resSeq: atom.resSeq,
+        iCode: atom.iCode,
+        resName: atom.resName,
+        polymer: false,
+        atoms: [],
+      };
+      residues.set(key, residue);
+      chain.residues.push(residue);
+    }
+    residue.atoms.push(atom);
+    // Modified amino acids (e.g. MSE) are HETATM but still have a backbone
+    if (atom.record === "ATOM" || (atom.name === "CA" && atom.element.toUpperCase() === "C")) {
+      residue.polymer = true;
+    }
+  }
+
+  return { chains: [...chains.values()] };
+}
+
+/** Structures parsed recently, keyed by file text */
+const parsed = new Map<string, Structure>();
+const MAX_PARSED = 4;
+
+/**
+ * Parse PDB or mmCIF text into a structure. The viewer, sequence track
+ * and server routes ask for the same few files repeatedly, so recent
+ * results are kept and each file is only parsed once.
+ */
+export function parseStructure(text: string): Structure {
+  const cached = parsed.get(text);
+  if (cached) return cached;
+
+  const isCif = /^data_/m.test(text) && text.includes("_atom_site.");
+  const structure = buildStructure(isCif ? parseMmcifAtoms(text) : parsePdbAtoms(text));
+
+  if (parsed.size >= MAX_PARSED) parsed.delete(parsed.keys().next().value!);
+  parsed.set(text, structure);
+  return structure;
+}
+
+/** The named chain, or the first chain with amino acids */
+export function polymerChain(structure: Structure, chainId?: string): Chain | null {
+  if (chainId !== undefined) {
+    return structure.chains.find((c) => c.id === chainId) ?? null;
+  }
+  return structure.chains.find((c) => c.residues.some((r) => r.polymer)) ?? null;
+}
+
+/**
+ * Amino-acid residues of a chain that are looked up by number. Inserted
+ * residues (e.g. 52A) share their number with the residue before them, so
+ * only residues without an insertion code are included.
+ */
+function numberedResidues(structure: Structure, chainId?: string): Residue[] {
+  const chain = polymerChain(structure, chainId);
+  return chain ? chain.residues.filter((r) => r.polymer && !r.iCode) : [];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Mean B-factor (pLDDT for predicted models) over amino-acid atoms of every chain */
+export function meanBFactor(structure: Structure): number {
+  let sum = 0;
+  let count = 0;
+  for (const chain of structure.chains) {
+    for (const residue of chain.residues) {
+      if (!residue.polymer) continue;
+      for (const atom of residue.atoms) {
+        sum += atom.bFactor;
+        count++;
+      }
+    }
+  }
+  return count > 0 ? round1(sum / count) : 0;
+}
+
+/** Mean B-factor (pLDDT) of each residue of a chain, keyed by residue number */
+export function residueBFactors(structure: Structure, chainId?: string): Map<number, number> {
+  const values = new Map<number, number>();
+  for (const residue of numberedResidues(structure, chainId)) {
+    const sum = residue.atoms.reduce((total, atom) => total + atom.bFactor, 0);
+    values.set(residue.resSeq, round1(sum / residue.atoms.length));
+  }
+  return values;
+}
+
+/** CA coordinates of a chain, keyed by residue number */
+export function caCoordinates(structure: Structure, chainId?: string): Map<number, Coord> {
+  const coords = new Map<number, Coord>();
+  for (const residue of numberedResidues(structure, chainId)) {
+    const ca = residue.atoms.find((atom) => atom.name === "CA");
+    if (ca) coords.set(residue.resSeq, { x: ca.x, y: ca.y, z: ca.z });
+  }
+  return coords;
+}
+
+/**
+ * Per-residue B-factor (pLDDT) change from a wild-type model to a mutant
+ * model, keyed by mutant residue. `toReference` maps mutant numbering to
+ * wild-type numbering; residues without a partner are left out.
+ */
+export function residueBFactorChanges(
+  wild: Structure,
+  mutant: Structure,
+  toReference: (resi: number) => number | null
+): Map<number, number> {
+  const before = residueBFactors(wild);
+  const changes = new Map<number, number>();
+  for (const [resi, after] of residueBFactors(mutant)) {
+    const reference = toReference(resi);
+    const value = reference === null ? undefined : before.get(reference);
+    if (value !== undefined) changes.set(resi, round1(after - value));
+  }
+  return changes;
+}
+
+/** PDB atom names of one-letter elements start in column 14 */
+function pdbAtomName(name: string, element: string): string {
+  return name.length < 4 && element.length <= 1 ? ` ${name}`.padEnd(4) : name.padEnd(4);
+}
+
+/** Write atoms as fixed-column PDB ATOM/HETATM records */
+export function atomsToPdb(atoms: Atom[]): string {
+  const lines = atoms.map((a) =>
+    a.record.padEnd(6) +
+    String(a.serial % 100000).padStart(5) +
+    " " +
+    pdbAtomName(a.name, a.element) +
+    (a.altLoc || " ").charAt(0) +
+    a.resName.padStart(3).substring(0, 3) +
+    " " +
+    (a.chain || "A").charAt(0) +
+    String(a.resSeq).padStart(4) +
+    (a.iCode || " ").charAt(0) +
+    "   " +
+    a.x.toFixed(3).padStart(8) +
+    a.y.toFixed(3).padStart(8) +
+    a.z.toFixed(3).padStart(8) +
+    a.occupancy.toFixed(2).padStart(6) +
+    a.bFactor.toFixed(2).padStart(6) +
+    "          " +
+    a.element.padStart(2)
+  );
+  return [...lines, "END"].join("\n");
+}
@@ -0,0 +1,249 @@
+import type { Coord } from "./structure";
+
+/** Rigid-body fit: a point x moves to rotation · (x − from) + to */
+export interface Superposition {
+  rotation: number[][];
+  from: Coord;
+  to: Coord;
+}
+
+/** A CA in the mutant model and the wild-type CA it corresponds to */
+export interface ResiduePair {
+  /** Mutant residue number */
+  mutant: number;
+  /** Wild-type residue number */
+  reference: number;
+  mobile: Coord;
+  target: Coord;
+}
+
+export interface SuperpositionResult {
+  /** RMSD (Å) over the residues the fit was made on */
+  rmsd: number;
+  /** Residues the fit was made on */
+  count: number;
+  /** Distance (Å) of every paired residue after the fit, keyed by mutant residue */
+  deviations: Map<number, number>;
+}
+
+export interface SimilarityScores {
+  /** 0-1; above 0.5 means the same fold */
+  tmScore: number;
+  /** 0-100 */
+  gdtTs: number;
+}
+
+function centroid(coords: Coord[]): Coord {
+  const sum = coords.reduce(
+    (acc, c) => ({ x: acc.x + c.x, y: acc.y + c.y, z: acc.z + c.z }),
+    { x: 0, y: 0, z: 0 }
+  );
+  return { x: sum.x / coords.length, y: sum.y / coords.length, z: sum.z / coords.length };
+}
+
+/** Eigenvector of the largest eigenvalue of a symmetric matrix (Jacobi rotations) */
+function largestEigenvector(matrix: number[][]): number[] {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v: number[][] = Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  );
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-18) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < n; i++) if (a[i][i] > a[best][best]) best = i;
+  return v.map((row) => row[best]);
+}
+
+/**
+ * Least-squares rotation and translation taking `mobile` onto `target`
+ * (the Kabsch problem), solved with Horn's quaternion method so no 3×3
+ * SVD is needed.
+ */
+export function superpose(mobile: Coord[], target: Coord[]): Superposition {
+  const from = centroid(mobile);
+  const to = centroid(target);
+
+  // Cross-covariance of the centred coordinates
+  const s = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  mobile.forEach((m, k) => {
+    const a = [m.x - from.x, m.y - from.y, m.z - from.z];
+    const t = target[k];
+    const b = [t.x - to.x, t.y - to.y, t.z - to.z];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) s[i][j] += a[i] * b[j];
+    }
+  });
+
+  const [[xx, xy, xz], [yx, yy, yz], [zx, zy, zz]] = s;
+  const [q0, q1, q2, q3] = largestEigenvector([
+    [xx + yy + zz, yz - zy, zx - xz, xy - yx],
+    [yz - zy, xx - yy - zz, xy + yx, zx + xz],
+    [zx - xz, xy + yx, -xx + yy - zz, yz + zy],
+    [xy - yx, zx + xz, yz + zy, -xx - yy + zz],
+  ]);
+
+  const rotation = [
+    [q0 * q0 + q1 * q1 - q2 * q2 - q3 * q3, 2 * (q1 * q2 - q0 * q3), 2 * (q1 * q3 + q0 * q2)],
+    [2 * (q1 * q2 + q0 * q3), q0 * q0 - q1 * q1 + q2 * q2 - q3 * q3, 2 * (q2 * q3 - q0 * q1)],
+    [2 * (q1 * q3 - q0 * q2), 2 * (q2 * q3 + q0 * q1), q0 * q0 - q1 * q1 - q2 * q2 + q3 * q3],
+  ];
+  return { rotation, from, to };
+}
+
+export function applySuperposition(fit: Superposition, c: Coord): Coord {
+  const d = [c.x - fit.from.x, c.y - fit.from.y, c.z - fit.from.z];
+  const [r0, r1, r2] = fit.rotation;
+  return {
+    x: r0[0] * d[0] + r0[1] * d[1] + r0[2] * d[2] + fit.to.x,
+    y: r1[0] * d[0] + r1[1] * d[1] + r1[2] * d[2] + fit.to.y,
+    z: r2[0] * d[0] + r2[1] * d[1] + r2[2] * d[2] + fit.to.z,
+  };
+}
+
+function distance(a: Coord, b: Coord): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+/**
+ * Pair mutant CAs with wild-type CAs. `toReference` maps mutant numbering
+ * to wild-type numbering so residues stay paired across indels.
+ */
+export function pairResidues(
+  wildCa: Map<number, Coord>,
+  mutantCa: Map<number, Coord>,
+  toReference: (resi: number) => number | null
+): ResiduePair[] {
+  const pairs: ResiduePair[] = [];
+  for (const [mutant, mobile] of mutantCa) {
+    const reference = toReference(mutant);
+    const target = reference === null ? undefined : wildCa.get(reference);
+    if (reference !== null && target) pairs.push({ mutant, reference, mobile, target });
+  }
+  return pairs;
+}
+
+function deviationsAfter(fit: Superposition, pairs: ResiduePair[]): number[] {
+  return pairs.map((p) => distance(applySuperposition(fit, p.mobile), p.target));
+}
+
+/**
+ * Superpose the mutant onto the wild type using only the pairs `alignOn`
+ * selects (every pair by default), then measure every pair. Returns null
+ * when fewer than three pairs are selected.
+ */
+export function superposeOn(
+  pairs: ResiduePair[],
+  alignOn: (pair: ResiduePair) => boolean = () => true
+): SuperpositionResult | null {
+  const selected = pairs.filter(alignOn);
+  if (selected.length < 3) return null;
+
+  const fit = superpose(
+    selected.map((p) => p.mobile),
+    selected.map((p) => p.target)
+  );
+  const all = deviationsAfter(fit, pairs);
+  const deviations = new Map(pairs.map((p, k) => [p.mutant, all[k]]));
+  const squared = selected.reduce((sum, p) => sum + deviations.get(p.mutant)! ** 2, 0);
+
+  return {
+    rmsd: Math.round(Math.sqrt(squared / selected.length) * 100) / 100,
+    count: selected.length,
+    deviations,
+  };
+}
+
+/** Distance cutoffs (Å) averaged into GDT-TS */
+const GDT_CUTOFFS = [1, 2, 4, 8];
+
+/**
+ * TM-score and GDT-TS of the mutant against the wild type, normalised by
+ * the wild-type length. Like the reference programs, each score is the
+ * best over several superpositions, here refined iteratively from the
+ * global fit on the residues that already lie close; the search is
+ * smaller, so the values can come out slightly low.
+ */
+export function similarityScores(pairs: ResiduePair[], referenceLength: number): SimilarityScores {
+  if (pairs.length < 3 || referenceLength === 0) return { tmScore: 0, gdtTs: 0 };
+
+  const d0 = referenceLength > 21 ? 1.24 * Math.cbrt(referenceLength - 15) - 1.8 : 0.5;
+  let tmScore = 0;
+  const gdtBest = GDT_CUTOFFS.map(() => 0);
+
+  const score = (fit: Superposition): number[] => {
+    const d = deviationsAfter(fit, pairs);
+    const tm = d.reduce((sum, di) => sum + 1 / (1 + (di / d0) ** 2), 0) / referenceLength;
+    tmScore = Math.max(tmScore, tm);
+    GDT_CUTOFFS.forEach((cutoff, k) => {
+      const within = d.filter((di) => di <= cutoff).length / referenceLength;
+      gdtBest[k] = Math.max(gdtBest[k], within);
+    });
+    return d;
+  };
+
+  const global = superpose(
+    pairs.map((p) => p.mobile),
+    pairs.map((p) => p.target)
+  );
+  const globalDeviations = score(global);
+
+  for (const cutoff of [d0, ...GDT_CUTOFFS]) {
+    let d = globalDeviations;
+    for (let round = 0; round < 5; round++) {
+      const close = pairs.filter((_, k) => d[k] <= cutoff);
+      if (close.length < 3) break;
+      d = score(
+        superpose(
+          close.map((p) => p.mobile),
+          close.map((p) => p.target)
+        )
+      );
+    }
+  }
+
+  const gdtTs = (gdtBest.reduce((sum, v) => sum + v, 0) / GDT_CUTOFFS.length) * 100;
+  return {
+    tmScore: Math.round(tmScore * 1000) / 1000,
+    gdtTs: Math.round(gdtTs * 10) / 10,
+  };
+}
@@ -0,0 +1,106 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { translateCds } from "./cdna";
+import type { ReferenceProtein } from "./numbering";
+
+export interface CdsRecord {
+  /** First word of the FASTA header, usually the transcript accession */
+  id: string;
+  header: string;
+  sequence: string;
+}
+
+const FASTA_EXTENSIONS = [".fa", ".fasta", ".fna", ".ffn"];
+
+export function getCdsDataDir(): string {
+  return path.resolve(process.env.CDS_DATA_DIR ?? path.join("data", "cds"));
+}
+
+/** Parse every record of a FASTA file */
+export function parseFasta(text: string): CdsRecord[] {
+  const records: CdsRecord[] = [];
+  let current: CdsRecord | null = null;
+
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) continue;
+    if (line.startsWith(">")) {
+      const header = line.substring(1).trim();
+      current = { id: header.split(/\s+/)[0], header, sequence: "" };
+      records.push(current);
+    } else if (current) {
+      current.sequence += line.replace(/\s+/g, "").toUpperCase();
+    }
+  }
+  return records;
+}
+
+function withoutVersion(accession: string): string {
+  return accession.replace(/\.\d+$/, "").toUpperCase();
+}
+
+/** Header tokens, so both `>NM_000546.6 TP53` and `>NM_000546.6 gene=TP53` match */
+function headerTokens(header: string): string[] {
+  return header
+    .split(/[\s|()=;,\[\]]+/)
+    .filter(Boolean)
+    .map((token) => token.toUpperCase());
+}
+
+/**
+ * Find the CDS for a transcript or gene in the local data directory.
+ * A transcript accession matches the header ID (the version is ignored
+ * when the file has none); otherwise the gene symbol must appear as a
+ * header token. Returns null when no record matches.
+ */
+export async function findCds(
+  gene: string,
+  transcript: string | null
+): Promise<CdsRecord | null> {
+  const dir = getCdsDataDir();
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch {
+    throw new Error(
+      `CDS data directory not found: ${dir}. Set CDS_DATA_DIR or add FASTA files to data/cds.`
+    );
+  }
+
+  const records: CdsRecord[] = [];
+  for (const file of files.sort()) {
+    if (!FASTA_EXTENSIONS.includes(path.extname(file).toLowerCase())) continue;
+    records.push(...parseFasta(await readFile(path.join(dir, file), "utf8")));
+  }
+
+  if (transcript) {
+    return (
+      records.find((r) => r.id.toUpperCase() === transcript.toUpperCase()) ??
+      records.find((r) => withoutVersion(r.id) === withoutVersion(transcript)) ??
+      null
+    );
+  }
+
+  const symbol = gene.toUpperCase();
+  return records.find((r) => headerTokens(r.header).includes(symbol)) ?? null;
+}
+
+/**
+ * The protein a transcript (or, without one, the gene's first local CDS)
+ * encodes, used to carry its numbering over to UniProt. Returns null when
+ * there is no local CDS, including when the data directory is missing.
+ */
+export async function findReferenceProtein(
+  gene: string,
+  transcript: string | null
+): Promise<ReferenceProtein | null> {
+  let record: CdsRecord | null;
+  try {
+    record = await findCds(gene, transcript);
+  } catch {
+    return null;
+  }
+  return record
+    ? { id: record.id, sequence: translateCds(record.sequence), named: transcript !== null }
+    : null;
+}
@@ -0,0 +1,454 @@
+import {
+  extractFeatures,
+  FEATURE_FIELDS,
+  type ProteinFeature,
+  type UniProtFeature,
+} from "./features";
+
+export interface Domain {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface Isoform {
+  /** Isoform identifier, e.g. P04637-2 */
+  id: string;
+  name: string;
+  /** True for the isoform UniProt displays as the canonical sequence */
+  canonical: boolean;
+}
+
+export interface Organism {
+  taxonId: number;
+  name: string;
+  commonName: string;
+}
+
+/** Organisms offered in the lookup selector; human is the default */
+export const ORGANISMS: Organism[] = [
+  { taxonId: 9606, name: "Homo sapiens", commonName: "Human" },
+  { taxonId: 10090, name: "Mus musculus", commonName: "Mouse" },
+  { taxonId: 10116, name: "Rattus norvegicus", commonName: "Rat" },
+  { taxonId: 7955, name: "Danio rerio", commonName: "Zebrafish" },
+  { taxonId: 7227, name: "Drosophila melanogaster", commonName: "Fruit fly" },
+  { taxonId: 6239, name: "Caenorhabditis elegans", commonName: "Worm" },
+  { taxonId: 559292, name: "Saccharomyces cerevisiae (S288c)", commonName: "Yeast" },
+  { taxonId: 3702, name: "Arabidopsis thaliana", commonName: "Arabidopsis" },
+];
+
+export const HUMAN_TAXON_ID = 9606;
+
+export interface LookupOptions {
+  /** NCBI taxonomy ID; defaults to human */
+  taxonId?: number;
+  /** Also search unreviewed TrEMBL entries */
+  includeUnreviewed?: boolean;
+}
+
+export interface ProteinInfo {
+  uniprotId: string;
+  proteinName: string;
+  geneName: string;
+  organism: string;
+  taxonId: number;
+  /** True for reviewed Swiss-Prot entries, false for TrEMBL */
+  reviewed: boolean;
+  function: string;
+  domains: Domain[];
+  /** Sites, PTMs, regions, membrane topology and natural variants */
+  features: ProteinFeature[];
+  /** Sequence of the selected isoform (canonical unless one was requested) */
+  sequence: string;
+  /** Selected isoform ID, or null when UniProt lists no isoforms */
+  isoformId: string | null;
+  isoforms: Isoform[];
+  note: string | null;
+}
+
+/** How a candidate entry matched the searched symbol, best first */
+export type GeneMatch = "primary" | "synonym" | "partial";
+
+export interface GeneCandidate {
+  uniprotId: string;
+  geneName: string;
+  proteinName: string;
+  organism: string;
+  reviewed: boolean;
+  match: GeneMatch;
+  /** The gene name or synonym that matched */
+  matchedName: string;
+}
+
+export type LookupResult =
+  | { ok: true; protein: ProteinInfo; candidates: GeneCandidate[] }
+  | { ok: false; status: number; error: string; candidates?: GeneCandidate[] };
+
+/** Largest number of search hits ranked for a gene symbol */
+const MAX_CANDIDATES = 25;
+
+const MATCH_RANK: Record<GeneMatch, number> = { primary: 0, synonym: 1, partial: 2 };
+
+/** Matches UniProtKB accessions (P04637, A0A024R161) with an optional isoform suffix */
+const UNIPROT_ACCESSION =
+  /^(?:[OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9](?:[A-Z][A-Z0-9]{2}[0-9]){1,2})(?:-\d+)?$/i;
+
+export function isUniprotAccession(value: string): boolean {
+  return UNIPROT_ACCESSION.test(value);
+}
+
+/** The selected isoform ID when it is not the canonical sequence, else null */
+export function nonCanonicalIsoform(protein: ProteinInfo): string | null {
+  const selected = protein.isoforms.find((iso) => iso.id === protein.isoformId);
+  return selected && !selected.canonical ? selected.id : null;
+}
+
+/** Find which domain a position falls in */
+export function findDomain(domains: Domain[], position: number): string | null {
+  const d = domains.find((d) => position >= d.start && position <= d.end);
+  return d ? d.name : null;
+}
+
+interface UniProtComment {
+  commentType?: string;
+  texts?: { value?: string }[];
+  isoforms?: {
+    name?: { value?: string };
+    isoformIds?: string[];
+    isoformSequenceStatus?: string;
+  }[];
+}
+
+/** The parts of a UniProtKB JSON entry this app reads */
+interface UniProtEntry {
+  primaryAccession?: string;
+  proteinDescription?: { recommendedName?: { fullName?: { value?: string } } };
+  entryType?: string;
+  genes?: {
+    geneName?: { value?: string };
+    synonyms?: { value?: string }[];
+    orderedLocusNames?: { value?: string }[];
+    orfNames?: { value?: string }[];
+  }[];
+  organism?: { scientificName?: string; taxonId?: number };
+  comments?: UniProtComment[];
+  features?: UniProtFeature[];
+  sequence?: { value?: string };
+}
+
+/** Isoforms listed in the ALTERNATIVE PRODUCTS comment */
+function extractIsoforms(entry: UniProtEntry): Isoform[] {
+  const comment = (entry.comments ?? []).find(
+    (c) => c.commentType === "ALTERNATIVE PRODUCTS",
+  );
+  return (comment?.isoforms ?? []).flatMap((iso) =>
+    (iso.isoformIds ?? []).map((id) => ({
+      id,
+      name: iso.name?.value ?? id,
+      canonical: iso.isoformSequenceStatus === "Displayed",
+    })),
+  );
+}
+
+/** Swiss-Prot entries report "UniProtKB reviewed (Swiss-Prot)" */
+function isReviewed(entry: UniProtEntry): boolean {
+  return (entry.entryType ?? "").includes("reviewed (Swiss-Prot)");
+}
+
+/** Convert a UniProtKB JSON entry into the protein summary used by the app */
+function entryToProtein(entry: UniProtEntry): ProteinInfo {
+  // Extract the primary accession
+  const uniprotId: string = entry.primaryAccession ?? "";
+
+  // Extract the recommended protein name
+  const proteinName: string =
+    entry.proteinDescription?.recommendedName?.fullName?.value ?? "";
+
+  // Extract the primary gene name
+  const geneName: string = entry.genes?.[0]?.geneName?.value ?? "";
+
+  const organism: string = entry.organism?.scientificName ?? "";
+  const taxonId: number = entry.organism?.taxonId ?? 0;
+
+  // Extract the function description from comments (cc_function)
+  const functionComment = (entry.comments ?? []).find(
+    (c) => c.commentType === "FUNCTION",
+  );
+  const functionText: string =
+    functionComment?.texts?.[0]?.value ?? "";
+
+  // Extract domain annotations from features (ft_domain)
+  const domains: Domain[] = (entry.features ?? [])
+    .filter((f) => f.type === "Domain")
+    .map((f) => ({
+      name: f.description ?? "",
+      start: f.location?.start?.value ?? 0,
+      end: f.location?.end?.value ?? 0,
+    }));
+
+  // Extract the remaining feature tracks (sites, PTMs, regions, variants)
+  const features = extractFeatures(entry.features ?? []);
+
+  const sequence: string = entry.sequence?.value ?? "";
+
+  const isoforms = extractIsoforms(entry);
+  const canonical = isoforms.find((iso) => iso.canonical);
+
+  return {
+    uniprotId,
+    proteinName,
+    geneName,
+    organism,
+    taxonId,
+    reviewed: isReviewed(entry),
+    function: functionText,
+    domains,
+    features,
+    sequence,
+    isoformId: canonical?.id ?? null,
+    isoforms,
+    note: null,
+  };
+}
+
+/** Classify how an entry's gene names match the searched symbol */
+function toCandidate(entry: UniProtEntry, symbol: string): GeneCandidate {
+  const query = symbol.toUpperCase();
+  const primaries = (entry.genes ?? []).flatMap((g) => g.geneName?.value ?? []);
+  // Yeast and worm genes are often searched by ordered locus or ORF name
+  const synonyms = (entry.genes ?? []).flatMap((g) =>
+    [...(g.synonyms ?? []), ...(g.orderedLocusNames ?? []), ...(g.orfNames ?? [])]
+      .flatMap((syn) => syn.value ?? []),
+  );
+
+  const primary = primaries.find((name) => name.toUpperCase() === query);
+  const synonym = synonyms.find((name) => name.toUpperCase() === query);
+  const partial = [...primaries, ...synonyms].find((name) =>
+    name.toUpperCase().includes(query),
+  );
+
+  const match: GeneMatch = primary ? "primary" : synonym ? "synonym" : "partial";
+  return {
+    uniprotId: entry.primaryAccession ?? "",
+    geneName: primaries[0] ?? "",
+    proteinName: entry.proteinDescription?.recommendedName?.fullName?.value ?? "",
+    organism: entry.organism?.scientificName ?? "",
+    reviewed: isReviewed(entry),
+    match,
+    matchedName: primary ?? synonym ?? partial ?? primaries[0] ?? "",
+  };
+}
+
+/**
+ * Look up the UniProt entry for a gene symbol in one organism (reviewed
+ * human entries by default). Hits are ranked by exact primary symbol,
+ * then synonym, then partial match, with Swiss-Prot ahead of TrEMBL; the
+ * symbol resolves only when a single entry holds the best exact match,
+ * otherwise the ranked candidates are returned for the user to choose.
+ */
+export async function lookupProtein(
+  gene: string,
+  options: LookupOptions = {},
+): Promise<LookupResult> {
+  const symbol = encodeURIComponent(gene);
+  const taxonId = options.taxonId ?? HUMAN_TAXON_ID;
+  const reviewedFilter = options.includeUnreviewed ? "" : "+AND+(reviewed:true)";
+  const uniprotUrl =
+    `https://rest.uniprot.org/uniprotkb/search?` +
+    `query=(gene:${symbol}+OR+gene:${symbol}*)+AND+(organism_id:${taxonId})${reviewedFilter}` +
+    `&format=json&size=${MAX_CANDIDATES}` +
+    `&fields=accession,reviewed,gene_names,organism_name,protein_name,ft_domain,${FEATURE_FIELDS.join(",")},cc_function,cc_alternative_products,sequence`;
+
+  try {
+    const response = await fetch(uniprotUrl, {
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: 500,
+        error: `UniProt API request failed with status ${response.status}`,
+      };
+    }
+
+    const data = await response.json();
+    const entries: UniProtEntry[] = data.results ?? [];
+
+    if (entries.length === 0) {
+      const organism =
+        ORGANISMS.find((o) => o.taxonId === taxonId)?.name ?? `taxon ${taxonId}`;
+      return {
+        ok: false,
+        status: 404,
+        error: options.includeUnreviewed
+          ? `No results found for gene: ${gene} in ${organism}`
+          : `No reviewed results found for gene: ${gene} in ${organism}. Try including unreviewed (TrEMBL) entries.`,
+      };
+    }
+
+    // Stable sort keeps UniProt's own relevance order within each rank
+    const ranked = entries
+      .map((entry) => ({ entry, candidate: toCandidate(entry, gene) }))
+      .sort(
+        (a, b) =>
+          MATCH_RANK[a.candidate.match] - MATCH_RANK[b.candidate.match] ||
+          Number(b.candidate.reviewed) - Number(a.candidate.reviewed),
+      );
+    const candidates = ranked.map((r) => r.candidate);
+    let best = ranked.filter((r) => r.candidate.match === ranked[0].candidate.match);
+    // One Swiss-Prot entry among TrEMBL fragments of the same gene wins
+    const reviewedBest = best.filter((r) => r.candidate.reviewed);
+    if (reviewedBest.length === 1) best = reviewedBest;
+    const listed = candidates
+      .slice(0, 5)
+      .map((c) => `${c.geneName} (${c.uniprotId})`)
+      .join(", ");
+
+    if (best[0].candidate.match === "partial") {
+      return {
+        ok: false,
+        status: 404,
+        error: `No gene named ${gene}. Did you mean ${listed}?`,
+        candidates,
+      };
+    }
+
+    if (best.length > 1) {
+      return {
+        ok: false,
+        status: 409,
+        error: `${gene} matches several proteins: ${listed}. Choose one.`,
+        candidates,
+      };
+    }
+
+    const protein = entryToProtein(best[0].entry);
+    if (best[0].candidate.match === "synonym") {
+      protein.note = `${gene} is an alias of ${protein.geneName}; showing ${protein.geneName}.`;
+    }
+    return { ok: true, protein, candidates };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      ok: false,
+      status: 500,
+      error: `Failed to fetch from UniProt API: ${message}`,
+    };
+  }
+}
+
+/** Read the single sequence of a FASTA response */
+function fastaSequence(fasta: string): string {
+  return fasta
+    .split("\n")
+    .filter((line) => !line.startsWith(">"))
+    .join("")
+    .replace(/\s+/g, "");
+}
+
+/**
+ * Look up a UniProt entry by accession. An isoform ID (P04637-2) selects
+ * that isoform's sequence; features stay in canonical numbering, so
+ * domains and features are dropped for non-canonical isoforms rather
+ * than misplaced.
+ */
+export async function lookupAccession(accession: string): Promise<LookupResult> {
+  const requested = accession.toUpperCase();
+  const canonicalAccession = requested.split("-")[0];
+
+  try {
+    const response = await fetch(
+      `https://rest.uniprot.org/uniprotkb/${encodeURIComponent(canonicalAccession)}.json`,
+      { headers: { Accept: "application/json" } },
+    );
+
+    if (response.status === 400 || response.status === 404) {
+      return {
+        ok: false,
+        status: 404,
+        error: `No UniProt entry found for accession: ${canonicalAccession}`,
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: 500,
+        error: `UniProt API request failed with status ${response.status}`,
+      };
+    }
+
+    const protein = entryToProtein(await response.json());
+
+    // A bare accession, or the canonical isoform ID, needs nothing more
+    if (requested === canonicalAccession || requested === protein.isoformId) {
+      return { ok: true, protein, candidates: [] };
+    }
+
+    const isoform = protein.isoforms.find((iso) => iso.id === requested);
+    if (!isoform) {
+      const available = protein.isoforms.map((iso) => iso.id).join(", ");
+      return {
+        ok: false,
+        status: 404,
+        error: available
+          ? `${canonicalAccession} has no isoform ${requested}. Available: ${available}`
+          : `${canonicalAccession} has no alternative isoforms.`,
+      };
+    }
+
+    const fastaRes = await fetch(
+      `https://rest.uniprot.org/uniprotkb/${encodeURIComponent(requested)}.fasta`,
+    );
+    if (!fastaRes.ok) {
+      return {
+        ok: false,
+        status: 500,
+        error: `Failed to fetch isoform ${requested} sequence: HTTP ${fastaRes.status}`,
+      };
+    }
+
+    return {
+      ok: true,
+      protein: {
+        ...protein,
+        sequence: fastaSequence(await fastaRes.text()),
+        isoformId: requested,
+        domains: [],
+        features: [],
+        note: `Domain and feature annotations are numbered on the canonical isoform and are not shown for ${isoform.name} (${requested}).`,
+      },
+      candidates: [],
+    };
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      ok: false,
+      status: 500,
+      error: `Failed to fetch from UniProt API: ${message}`,
+    };
+  }
+}
+
+/**
+ * Look up by accession or isoform ID when given one, otherwise by gene
+ * symbol. Some gene symbols (P2RY12, H2BC12) are shaped like accessions,
+ * so one that names no UniProt entry is tried as a symbol before giving up.
+ */
+export async function resolveProtein(
+  query: string,
+  options: LookupOptions = {},
+): Promise<LookupResult> {
+  if (!isUniprotAccession(query)) return lookupProtein(query, options);
+
+  const byAccession = await lookupAccession(query);
+  // Isoform IDs contain a hyphen and are never gene symbols
+  if (byAccession.ok || byAccession.status !== 404 || query.includes("-")) {
+    return byAccession;
+  }
+  const bySymbol = await lookupProtein(query, options);
+  return bySymbol.ok || bySymbol.candidates?.length ? bySymbol : byAccession;
+}
@@ -0,0 +1,166 @@
+import type { VariantChange } from "./hgvs";
+
+export type { VariantChange };
+
+export interface ResidueSpan {
+  start: number;
+  end: number;
+}
+
+/** Nonsense and frameshift variants lose everything after the change */
+export function isTruncating(m: VariantChange): boolean {
+  return m.type === "nonsense" || m.type === "frameshift";
+}
+
+/** Wild-type residues touched by the variant, in reference numbering */
+export function referenceSpan(m: VariantChange): ResidueSpan {
+  return { start: m.position, end: m.end };
+}
+
+/**
+ * Apply the variant to a wild-type sequence. Truncating variants keep only
+ * the residues before the change (plus the first new residue of a
+ * frameshift, when known); the out-of-frame tail is not modelled.
+ */
+export function applyVariant(sequence: string, m: VariantChange): string {
+  const before = sequence.substring(0, m.position - 1);
+  switch (m.type) {
+    case "missense":
+    case "synonymous":
+      return before + m.mutant + sequence.substring(m.position);
+    case "nonsense":
+      return before;
+    case "frameshift":
+      return before + m.mutant;
+    case "deletion":
+      return before + sequence.substring(m.end);
+    case "insertion":
+      return sequence.substring(0, m.position) + m.mutant + sequence.substring(m.position);
+    case "delins":
+      return before + m.mutant + sequence.substring(m.end);
+  }
+}
+
+/** Shift a variant to a new start position, keeping its length */
+export function shiftVariant<T extends VariantChange>(m: T, position: number): T {
+  return { ...m, position, end: position + (m.end - m.position) };
+}
+
+/**
+ * Residues of the mutant model that carry the change, in mutant numbering.
+ * Returns null when nothing of the change is left to show (a deletion is
+ * shown by the two residues it joins; a stop by the last residue kept).
+ */
+export function mutantSpan(m: VariantChange): ResidueSpan | null {
+  switch (m.type) {
+    case "missense":
+    case "synonymous":
+      return { start: m.position, end: m.position };
+    case "nonsense":
+      return m.position > 1 ? { start: m.position - 1, end: m.position - 1 } : null;
+    case "frameshift":
+      return m.mutant
+        ? { start: m.position, end: m.position }
+        : m.position > 1 ? { start: m.position - 1, end: m.position - 1 } : null;
+    case "deletion":
+      return { start: Math.max(1, m.position - 1), end: m.position };
+    case "insertion":
+      return { start: m.position + 1, end: m.position + m.mutant.length };
+    case "delins":
+      return { start: m.position, end: m.position + m.mutant.length - 1 };
+  }
+}
+
+/**
+ * Map a residue number in the mutant model back to the wild-type residue it
+ * corresponds to. Inserted residues have no wild-type counterpart (null).
+ */
+export function mutantToReference(m: VariantChange, resi: number): number | null {
+  const removed = m.end - m.position + 1;
+  switch (m.type) {
+    case "missense":
+    case "synonymous":
+    case "nonsense":
+      return resi;
+    case "frameshift":
+      return m.mutant && resi === m.position ? null : resi;
+    case "deletion":
+      return resi < m.position ? resi : resi + removed;
+    case "insertion":
+      if (resi <= m.position) return resi;
+      if (resi <= m.position + m.mutant.length) return null;
+      return resi - m.mutant.length;
+    case "delins":
+      if (resi < m.position) return resi;
+      if (resi < m.position + m.mutant.length) return null;
+      return resi - m.mutant.length + removed;
+  }
+}
+
+/** Expand a span into the residue list 3Dmol selections expect */
+export function spanResidues(span: ResidueSpan): number[] {
+  const residues: number[] = [];
+  for (let r = span.start; r <= span.end; r++) residues.push(r);
+  return residues;
+}
+
+/** How many residues the change adds (positive) or removes (negative) */
+function lengthChange(m: VariantChange): number {
+  const removed = m.end - m.position + 1;
+  switch (m.type) {
+    case "missense":
+    case "synonymous":
+      return 0;
+    case "insertion":
+      return m.mutant.length;
+    case "deletion":
+      return -removed;
+    case "delins":
+      return m.mutant.length - removed;
+    case "nonsense":
+    case "frameshift":
+      return -Infinity;
+  }
+}
+
+function byPosition(a: VariantChange, b: VariantChange): number {
+  return a.position - b.position;
+}
+
+/**
+ * Apply several non-overlapping changes to one sequence. Changes are
+ * applied from the C-terminus down so earlier positions stay valid.
+ */
+export function applyVariants(sequence: string, changes: VariantChange[]): string {
+  return [...changes]
+    .sort(byPosition)
+    .reverse()
+    .reduce((seq, change) => applyVariant(seq, change), sequence);
+}
+
+/** Compound form of {@link mutantToReference} */
+export function mutantToReferenceAll(
+  changes: VariantChange[],
+  resi: number
+): number | null {
+  let current: number | null = resi;
+  for (const change of [...changes].sort(byPosition)) {
+    if (current === null) return null;
+    current = mutantToReference(change, current);
+  }
+  return current;
+}
+
+/**
+ * Compound form of {@link mutantSpan}: each change's span in the numbering
+ * of the combined mutant, in the order the changes were given.
+ */
+export function mutantSpans(changes: VariantChange[]): (ResidueSpan | null)[] {
+  return changes.map((change) => {
+    const shift = changes
+      .filter((other) => other.position < change.position)
+      .reduce((sum, other) => sum + lengthChange(other), 0);
+    const span = mutantSpan(change);
+    return span ? { start: span.start + shift, end: span.end + shift } : null;
+  });
+}